@@ -14,6 +14,8 @@ import {
   Wand2,
   Download,
   Globe,
+  Filter,
+  Tag,
 } from "lucide-react"
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
@@ -25,13 +27,35 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Slider } from "@/components/ui/slider"
 import { Switch } from "@/components/ui/switch"
 import { Label } from "@/components/ui/label"
+import { Input } from "@/components/ui/input"
 import { Separator } from "@/components/ui/separator"
 import { read, utils } from "xlsx"
 import * as tf from "@tensorflow/tfjs"
 import "@tensorflow/tfjs-backend-webgl"
 import { generateText } from "ai"
 import { openai } from "@ai-sdk/openai"
+import type { KaldiRecognizer, Model } from "vosk-browser"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  describeFilterCondition,
+  describeQueryPlan,
+  editDistance,
+  getColumnDecimalSeparators,
+  getWorkbookFingerprint,
+  loadColumnAliases,
+  parseCellNumber,
+  processQueryWithLocalAI,
+  saveColumnAliases,
+} from "@/lib/query-engine"
+import type {
+  ColumnAliases,
+  ExcelData,
+  FilterCondition,
+  Language,
+  NLPModel,
+  QueryPlan,
+  QueryResult,
+} from "@/lib/query-engine"
 
 // Microphone Level Indicator Component
 const MicrophoneLevelIndicator = ({ isListening }: { isListening: boolean }) => {
@@ -96,20 +120,6 @@ const MicrophoneLevelIndicator = ({ isListening }: { isListening: boolean }) =>
 
 // Types
 type Status = "idle" | "uploading" | "uploaded" | "listening" | "processing" | "speaking" | "error" | "loading-model"
-type Language = "en-US" | "de-DE" | "auto" | null
-type ExcelData = {
-  sheets: Record<string, any[]>
-  activeSheet: string
-}
-type QueryResult = {
-  answer: string
-  explanation: string
-  data: any[] | null
-  followUpQuestions: string[]
-  confidence: number
-  usedColumns: string[]
-  operation: string
-}
 type SpeechSettings = {
   noiseReduction: boolean
   echoReduction: boolean
@@ -118,1084 +128,79 @@ type SpeechSettings = {
   rate: number
   pitch: number
   volume: number
+  recognitionEngine: AsrBackendName
+  listeningMode: ListeningMode
+  synthesisEngine: TtsBackendName
+  voices: VoiceChoices
 }
-type VisualizationType = "table" | "chart" | null
-type NLPModel = {
-  model: any
-  encoder: any
-  tokenizer: any
-  loaded: boolean
-}
-
-// Declare SpeechRecognition
-declare var webkitSpeechRecognition: any
-
-// Add global microphone analyser
-declare global {
-  interface Window {
-    microphoneAnalyser: AnalyserNode | null
-  }
-}
-
-// Initialize global microphone analyser
-if (typeof window !== "undefined") {
-  window.microphoneAnalyser = null
-}
-
-// Function to extract column names from query
-const extractColumns = (query: string, columns: string[]): string[] => {
-  const mentionedColumns: string[] = []
-  const lowerCaseQuery = query.toLowerCase()
-
-  for (const column of columns) {
-    if (lowerCaseQuery.includes(column.toLowerCase())) {
-      mentionedColumns.push(column)
-    }
-  }
-
-  return mentionedColumns
-}
-
-// Free NLP processing using TensorFlow.js
-const processQueryWithLocalAI = async (
-  query: string,
-  excelData: ExcelData,
-  language: Language,
-  nlpModel: NLPModel,
-): Promise<QueryResult> => {
-  try {
-    if (!nlpModel.loaded) {
-      throw new Error("NLP model not loaded")
-    }
-
-    const currentSheet = excelData.sheets[excelData.activeSheet]
-    const columns = currentSheet.length > 0 ? Object.keys(currentSheet[0]) : []
-
-    // Basic intent recognition
-    const intent = recognizeIntent(query.toLowerCase())
-
-    // Extract column names from query
-    const mentionedColumns = extractColumns(query, columns)
-
-    // Process the query based on intent
-    let result: QueryResult
-
-    switch (intent) {
-      case "average":
-        result = calculateAverage(query, currentSheet, mentionedColumns, language)
-        break
-      case "sum":
-        result = calculateSum(query, currentSheet, mentionedColumns, language)
-        break
-      case "count":
-        result = countValues(query, currentSheet, mentionedColumns, language)
-        break
-      case "min":
-        result = findMinimum(query, currentSheet, mentionedColumns, language)
-        break
-      case "max":
-        result = findMaximum(query, currentSheet, mentionedColumns, language)
-        break
-      case "correlation":
-        result = calculateCorrelation(query, currentSheet, mentionedColumns, language)
-        break
-      case "unique":
-        result = findUniqueValues(query, currentSheet, mentionedColumns, language)
-        break
-      case "overview":
-        result = getDataOverview(currentSheet, columns, language)
-        break
-      case "search":
-        result = searchForValue(query, currentSheet, columns, language)
-        break
-      default:
-        // If no specific intent is recognized, try search as a fallback
-        result = searchForValue(query, currentSheet, columns, language)
-
-        // If search doesn't yield good results, provide a general response
-        if (result.confidence < 0.5) {
-          result = {
-            answer:
-              language === "de-DE"
-                ? "Ich verstehe Ihre Anfrage nicht vollständig. Sie können nach Werten suchen, oder Fragen über Durchschnitt, Summe, Anzahl, Minimum, Maximum oder Korrelation stellen."
-                : "I don't fully understand your query. You can search for values, or ask about average, sum, count, minimum, maximum, or correlation.",
-            explanation: "",
-            data: null,
-            followUpQuestions: generateFollowUpQuestions(columns, language),
-            confidence: 0.3,
-            usedColumns: [],
-            operation: "unknown",
-          }
-        }
-    }
-
-    return result
-  } catch (error) {
-    console.error("Local AI processing error:", error)
-    return {
-      answer:
-        language === "de-DE"
-          ? "Es gab einen Fehler bei der Verarbeitung Ihrer Anfrage."
-          : "There was an error processing your query.",
-      explanation: "",
-      data: null,
-      followUpQuestions: [],
-      confidence: 0,
-      usedColumns: [],
-      operation: "error",
-    }
-  }
-}
-
-// Enhanced intent recognition
-const recognizeIntent = (query: string): string => {
-  // Define intent patterns with multiple keywords for each intent
-  const intentPatterns = {
-    average: [
-      "average",
-      "mean",
-      "avg",
-      "durchschnitt",
-      "mittelwert",
-      "moyenne",
-      "media",
-      "promedio",
-      "プロmedio",
-      "平均",
-      "what is the average",
-      "calculate the average",
-      "find the mean",
-      "show me the average",
-    ],
-    sum: [
-      "sum",
-      "total",
-      "add",
-      "summe",
-      "gesamt",
-      "somme",
-      "total",
-      "suma",
-      "合計",
-      "总和",
-      "what is the sum",
-      "calculate the sum",
-      "add up",
-      "total of",
-      "sum of",
-    ],
-    count: [
-      "count",
-      "how many",
-      "number of",
-      "anzahl",
-      "wie viele",
-      "combien",
-      "cuántos",
-      "quanti",
-      "数える",
-      "计数",
-      "count the",
-      "how many are there",
-      "number of items",
-      "count all",
-    ],
-    min: [
-      "minimum",
-      "min",
-      "smallest",
-      "lowest",
-      "kleinste",
-      "minimum",
-      "mínimo",
-      "minimo",
-      "最小",
-      "最小值",
-      "what is the minimum",
-      "find the lowest",
-      "what's the smallest",
-      "show me the minimum",
-    ],
-    max: [
-      "maximum",
-      "max",
-      "largest",
-      "highest",
-      "größte",
-      "maximum",
-      "máximo",
-      "massimo",
-      "最大",
-      "最大值",
-      "what is the maximum",
-      "find the highest",
-      "what's the largest",
-      "show me the maximum",
-    ],
-    correlation: [
-      "correlation",
-      "relationship",
-      "relates to",
-      "korrelation",
-      "zusammenhang",
-      "corrélation",
-      "correlación",
-      "correlazione",
-      "相関",
-      "相关性",
-      "how does * relate to",
-      "relationship between",
-      "correlation between",
-      "how * correlates with",
-    ],
-    unique: [
-      "unique",
-      "distinct",
-      "different",
-      "einzigartig",
-      "unterschiedlich",
-      "unique",
-      "único",
-      "unico",
-      "ユニーク",
-      "唯一",
-      "unique values",
-      "distinct values",
-      "list of unique",
-      "all different",
-      "show me unique",
-    ],
-    overview: [
-      "overview",
-      "summary",
-      "describe",
-      "überblick",
-      "zusammenfassung",
-      "aperçu",
-      "resumen",
-      "panoramica",
-      "概要",
-      "概述",
-      "give me an overview",
-      "summarize the data",
-      "describe the dataset",
-      "what's in the data",
-    ],
-    search: [
-      "is",
-      "find",
-      "search",
-      "look for",
-      "has",
-      "contains",
-      "where",
-      "ist",
-      "finde",
-      "suche",
-      "enthält",
-      "wo",
-      "rechercher",
-      "buscar",
-      "cercare",
-      "検索",
-      "搜索",
-      "find records where",
-      "search for rows with",
-      "look for entries",
-    ],
-    filter: [
-      "filter",
-      "only show",
-      "filtern",
-      "nur zeigen",
-      "filtrer",
-      "filtrar",
-      "filtrare",
-      "フィルター",
-      "筛选",
-      "filter by",
-      "only display",
-      "show only",
-      "exclude",
-    ],
-    trend: [
-      "trend",
-      "pattern",
-      "over time",
-      "change",
-      "trend",
-      "muster",
-      "im laufe der zeit",
-      "änderung",
-      "tendance",
-      "tendencia",
-      "andamento",
-      "トレンド",
-      "趋势",
-      "show me the trend",
-      "how has * changed",
-      "pattern of",
-    ],
-  }
-
-  // Convert query to lowercase for case-insensitive matching
-  const lowerQuery = query.toLowerCase()
-
-  // Scoring system for intent matching
-  let bestIntent = "unknown"
-  let highestScore = 0
-
-  for (const [intent, patterns] of Object.entries(intentPatterns)) {
-    // Count how many patterns match in the query
-    let matchCount = 0
-    for (const pattern of patterns) {
-      // Use wildcard pattern matching if pattern contains *
-      if (pattern.includes("*")) {
-        const parts = pattern.split("*").filter((p) => p.length > 0)
-        if (parts.length > 0 && parts.every((part) => lowerQuery.includes(part))) {
-          matchCount += 1
-        }
-      }
-      // Otherwise use simple inclusion check
-      else if (lowerQuery.includes(pattern)) {
-        matchCount += 1
-      }
-    }
-
-    // Calculate score based on number of matches and pattern specificity
-    const score = matchCount * (patterns.some((p) => p.includes(" ")) ? 1.5 : 1)
-
-    if (score > highestScore) {
-      highestScore = score
-      bestIntent = intent
-    }
-  }
-
-  // If confidence is too low, default to search or unknown
-  return highestScore > 0 ? bestIntent : "unknown"
-}
-
-// Add a new function to search for values in the data
-const searchForValue = (query: string, data: any[], columns: string[], language: Language): QueryResult => {
-  // Extract potential search values (numbers, IDs, names, etc.)
-  const searchValues = extractSearchValues(query)
-
-  if (searchValues.length === 0) {
-    return {
-      answer:
-        language === "de-DE"
-          ? "Ich konnte keinen Suchwert in Ihrer Anfrage erkennen. Bitte geben Sie an, wonach Sie suchen möchten."
-          : "I couldn't identify a search value in your query. Please specify what you're looking for.",
-      explanation: "",
-      data: null,
-      followUpQuestions: [],
-      confidence: 0.5,
-      usedColumns: [],
-      operation: "search",
-    }
-  }
-
-  // Identify potential column to search in
-  let targetColumn = ""
-  const columnKeywords = extractColumnKeywords(query)
-
-  // Try to match column keywords with actual column names
-  for (const keyword of columnKeywords) {
-    for (const column of columns) {
-      if (column.toLowerCase().includes(keyword.toLowerCase())) {
-        targetColumn = column
-        break
-      }
-    }
-    if (targetColumn) break
-  }
-
-  // If no specific column is identified, search across all columns
-  const searchResults = []
-  const matchingRows = []
-  const searchValue = searchValues[0] // Use the first identified search value
-
-  if (targetColumn) {
-    // Search in the specific column
-    for (const row of data) {
-      const cellValue = String(row[targetColumn]).toLowerCase()
-      if (cellValue === String(searchValue).toLowerCase()) {
-        matchingRows.push(row)
-      }
-    }
-  } else {
-    // Search across all columns
-    for (const row of data) {
-      for (const column of columns) {
-        const cellValue = String(row[column]).toLowerCase()
-        if (cellValue === String(searchValue).toLowerCase()) {
-          matchingRows.push(row)
-          if (!searchResults.includes(column)) {
-            searchResults.push(column)
-          }
-        }
-      }
-    }
-  }
-
-  // Prepare the response
-  if (matchingRows.length > 0) {
-    const foundColumns = targetColumn ? [targetColumn] : searchResults
-
-    return {
-      answer:
-        language === "de-DE"
-          ? `Ja, ${searchValue} wurde in den Daten gefunden. Es gibt ${matchingRows.length} Übereinstimmung(en).`
-          : `Yes, ${searchValue} was found in the data. There are ${matchingRows.length} match(es).`,
-      explanation:
-        language === "de-DE"
-          ? `Ich habe nach "${searchValue}" in ${targetColumn ? `der Spalte "${targetColumn}"` : "allen Spalten"} gesucht und ${matchingRows.length} Übereinstimmung(en) gefunden.`
-          : `I searched for "${searchValue}" in ${targetColumn ? `the "${targetColumn}" column` : "all columns"} and found ${matchingRows.length} match(es).`,
-      data: matchingRows.slice(0, 10),
-      followUpQuestions: generateSearchFollowUpQuestions(searchValue, matchingRows, columns, language),
-      confidence: 0.9,
-      usedColumns: foundColumns,
-      operation: "search",
-    }
-  } else {
-    return {
-      answer:
-        language === "de-DE"
-          ? `Nein, ${searchValue} wurde nicht in den Daten gefunden.`
-          : `No, ${searchValue} was not found in the data.`,
-      explanation:
-        language === "de-DE"
-          ? `Ich habe nach "${searchValue}" in ${targetColumn ? `der Spalte "${targetColumn}"` : "allen Spalten"} gesucht, aber keine Übereinstimmungen gefunden.`
-          : `I searched for "${searchValue}" in ${targetColumn ? `the "${targetColumn}" column` : "all columns"} but found no matches.`,
-      data: null,
-      followUpQuestions: [
-        language === "de-DE" ? "Gib mir einen Überblick über die Daten." : "Give me an overview of the data.",
-        language === "de-DE" ? "Welche Werte gibt es in dieser Spalte?" : "What values exist in this column?",
-        language === "de-DE" ? "Wie viele Einträge gibt es insgesamt?" : "How many entries are there in total?",
-      ],
-      confidence: 0.9,
-      usedColumns: targetColumn ? [targetColumn] : [],
-      operation: "search",
-    }
-  }
-}
-
-// Extract search values from the query
-const extractSearchValues = (query: string): string[] => {
-  const values = []
-
-  // Extract numbers (including those that might be IDs)
-  const numberMatches = query.match(/\d+/g)
-  if (numberMatches) {
-    values.push(...numberMatches)
-  }
-
-  // Extract potential quoted values
-  const quotedMatches = query.match(/"([^"]*)"|'([^']*)'/g)
-  if (quotedMatches) {
-    values.push(...quotedMatches.map((match) => match.slice(1, -1)))
-  }
-
-  // Extract potential ID values (common patterns like ID123, id-456, etc.)
-  const idMatches = query.match(/[a-zA-Z]+-?\d+/g)
-  if (idMatches) {
-    values.push(...idMatches)
-  }
-
-  return values
-}
-
-// Extract column keywords from the query
-const extractColumnKeywords = (query: string): string[] => {
-  const keywords = []
-
-  // Common column identifiers
-  const columnIdentifiers = [
-    "id",
-    "name",
-    "title",
-    "date",
-    "time",
-    "price",
-    "cost",
-    "value",
-    "number",
-    "email",
-    "phone",
-    "address",
-    "city",
-    "state",
-    "country",
-    "category",
-    "type",
-    "status",
-    "description",
-    "quantity",
-    "amount",
-  ]
-
-  // Check for column identifiers in the query
-  for (const identifier of columnIdentifiers) {
-    if (query.toLowerCase().includes(identifier.toLowerCase())) {
-      keywords.push(identifier)
-    }
-  }
-
-  return keywords
-}
-
-// Generate follow-up questions for search results
-const generateSearchFollowUpQuestions = (
-  searchValue: string,
-  matchingRows: any[],
-  columns: string[],
-  language: Language,
-): string[] => {
-  const questions = []
-
-  if (matchingRows.length > 0) {
-    // Get a random column from the first matching row
-    const availableColumns = Object.keys(matchingRows[0])
-    const randomColumn = availableColumns[Math.floor(Math.random() * availableColumns.length)]
-
-    if (language === "de-DE") {
-      questions.push(`Wie viele Einträge haben den Wert ${searchValue}?`)
-      questions.push(`Was ist der Durchschnitt von ${randomColumn}?`)
-      questions.push(`Gibt es andere Einträge mit ähnlichen Werten?`)
-    } else {
-      questions.push(`How many entries have the value ${searchValue}?`)
-      questions.push(`What is the average of ${randomColumn}?`)
-      questions.push(`Are there other entries with similar values?`)
-    }
-  } else {
-    if (language === "de-DE") {
-      questions.push("Welche Werte gibt es in dieser Spalte?")
-      questions.push("Gib mir einen Überblick über die Daten.")
-      questions.push("Wie viele Einträge gibt es insgesamt?")
-    } else {
-      questions.push("What values exist in this column?")
-      questions.push("Give me an overview of the data.")
-      questions.push("How many entries are there in total?")
-    }
-  }
-
-  return questions
-}
-
-// Calculate average
-const calculateAverage = (query: string, data: any[], mentionedColumns: string[], language: Language): QueryResult => {
-  if (mentionedColumns.length === 0) {
-    return {
-      answer:
-        language === "de-DE"
-          ? "Bitte geben Sie eine Spalte an, für die Sie den Durchschnitt berechnen möchten."
-          : "Please specify a column for which you want to calculate the average.",
-      explanation: "",
-      data: null,
-      followUpQuestions: [],
-      confidence: 0.5,
-      usedColumns: [],
-      operation: "average",
-    }
-  }
-
-  const column = mentionedColumns[0]
-  const values = data.map((row) => Number.parseFloat(row[column])).filter((val) => !isNaN(val))
-
-  if (values.length === 0) {
-    return {
-      answer:
-        language === "de-DE"
-          ? `Ich konnte keine numerischen Werte in der Spalte ${column} finden.`
-          : `I couldn't find any numeric values in the ${column} column.`,
-      explanation: "",
-      data: null,
-      followUpQuestions: [],
-      confidence: 0.7,
-      usedColumns: [column],
-      operation: "average",
-    }
-  }
-
-  const average = values.reduce((sum, val) => sum + val, 0) / values.length
-
-  return {
-    answer:
-      language === "de-DE"
-        ? `Der Durchschnitt von ${column} ist ${average.toFixed(2)}.`
-        : `The average of ${column} is ${average.toFixed(2)}.`,
-    explanation:
-      language === "de-DE"
-        ? `Ich habe den Durchschnitt berechnet, indem ich alle Werte in der Spalte ${column} addiert und durch die Anzahl der Werte (${values.length}) geteilt habe.`
-        : `I calculated the average by adding all values in the ${column} column and dividing by the number of values (${values.length}).`,
-    data: data.map((row) => ({ [column]: row[column] })).slice(0, 10),
-    followUpQuestions: [
-      language === "de-DE" ? `Was ist die Summe von ${column}?` : `What is the sum of ${column}?`,
-      language === "de-DE" ? `Was ist der Maximalwert von ${column}?` : `What is the maximum value of ${column}?`,
-      language === "de-DE" ? `Wie viele Einträge gibt es in ${column}?` : `How many entries are there in ${column}?`,
-    ],
-    confidence: 0.9,
-    usedColumns: [column],
-    operation: "average",
-  }
+// When recognized speech counts as a query: always, while push-to-talk is held, or after the wake word
+type ListeningMode = "always-on" | "push-to-talk" | "wake-word"
+// Speech recognition engines share one interface, so the browser's Web Speech API and the
+// local WebAssembly recognizer are interchangeable
+type AsrBackendName = "web-speech" | "local"
+type AsrResult = {
+  transcript: string
+  confidence: number
+  isFinal: boolean
 }
-
-// Calculate sum
-const calculateSum = (query: string, data: any[], mentionedColumns: string[], language: Language): QueryResult => {
-  if (mentionedColumns.length === 0) {
-    return {
-      answer:
-        language === "de-DE"
-          ? "Bitte geben Sie eine Spalte an, für die Sie die Summe berechnen möchten."
-          : "Please specify a column for which you want to calculate the sum.",
-      explanation: "",
-      data: null,
-      followUpQuestions: [],
-      confidence: 0.5,
-      usedColumns: [],
-      operation: "sum",
-    }
-  }
-
-  const column = mentionedColumns[0]
-  const values = data.map((row) => Number.parseFloat(row[column])).filter((val) => !isNaN(val))
-
-  if (values.length === 0) {
-    return {
-      answer:
-        language === "de-DE"
-          ? `Ich konnte keine numerischen Werte in der Spalte ${column} finden.`
-          : `I couldn't find any numeric values in the ${column} column.`,
-      explanation: "",
-      data: null,
-      followUpQuestions: [],
-      confidence: 0.7,
-      usedColumns: [column],
-      operation: "sum",
-    }
-  }
-
-  const sum = values.reduce((total, val) => total + val, 0)
-
-  return {
-    answer:
-      language === "de-DE"
-        ? `Die Summe von ${column} ist ${sum.toFixed(2)}.`
-        : `The sum of ${column} is ${sum.toFixed(2)}.`,
-    explanation:
-      language === "de-DE"
-        ? `Ich habe die Summe berechnet, indem ich alle Werte in der Spalte ${column} addiert habe.`
-        : `I calculated the sum by adding all values in the ${column} column.`,
-    data: data.map((row) => ({ [column]: row[column] })).slice(0, 10),
-    followUpQuestions: [
-      language === "de-DE" ? `Was ist der Durchschnitt von ${column}?` : `What is the average of ${column}?`,
-      language === "de-DE" ? `Was ist der Minimalwert von ${column}?` : `What is the minimum value of ${column}?`,
-      language === "de-DE" ? `Wie viele Einträge gibt es in ${column}?` : `How many entries are there in ${column}?`,
-    ],
-    confidence: 0.9,
-    usedColumns: [column],
-    operation: "sum",
-  }
+type AsrError = {
+  code: string
+  message: string
 }
-
-// Count values
-const countValues = (query: string, data: any[], mentionedColumns: string[], language: Language): QueryResult => {
-  if (mentionedColumns.length === 0) {
-    // Count all rows
-    return {
-      answer:
-        language === "de-DE"
-          ? `Es gibt insgesamt ${data.length} Einträge in dieser Tabelle.`
-          : `There are a total of ${data.length} entries in this sheet.`,
-      explanation:
-        language === "de-DE"
-          ? "Ich habe die Gesamtzahl der Zeilen in der Tabelle gezählt."
-          : "I counted the total number of rows in the sheet.",
-      data: null,
-      followUpQuestions: [],
-      confidence: 0.9,
-      usedColumns: [],
-      operation: "count",
-    }
-  }
-
-  const column = mentionedColumns[0]
-  const nonEmptyCount = data.filter(
-    (row) => row[column] !== undefined && row[column] !== null && row[column] !== "",
-  ).length
-
-  return {
-    answer:
-      language === "de-DE"
-        ? `Es gibt ${nonEmptyCount} nicht-leere Einträge in der Spalte ${column}.`
-        : `There are ${nonEmptyCount} non-empty entries in the ${column} column.`,
-    explanation:
-      language === "de-DE"
-        ? `Ich habe die Anzahl der nicht-leeren Werte in der Spalte ${column} gezählt.`
-        : `I counted the number of non-empty values in the ${column} column.`,
-    data: data.map((row) => ({ [column]: row[column] })).slice(0, 10),
-    followUpQuestions: [
-      language === "de-DE" ? `Was ist der Durchschnitt von ${column}?` : `What is the average of ${column}?`,
-      language === "de-DE"
-        ? `Was sind die einzigartigen Werte in ${column}?`
-        : `What are the unique values in ${column}?`,
-      language === "de-DE" ? `Wie viele Einträge gibt es insgesamt?` : `How many entries are there in total?`,
-    ],
-    confidence: 0.9,
-    usedColumns: [column],
-    operation: "count",
-  }
+type AsrBackend = {
+  name: AsrBackendName
+  isLocal: boolean
+  start: (options: { language: Language; stream: MediaStream; audioContext: AudioContext }) => Promise<void>
+  stop: () => void
+  setLanguage: (language: Language) => void
+  onResult: ((result: AsrResult) => void) | null
+  onError: ((error: AsrError) => void) | null
+  onEnd: (() => void) | null
 }
-
-// Find minimum value
-const findMinimum = (query: string, data: any[], mentionedColumns: string[], language: Language): QueryResult => {
-  if (mentionedColumns.length === 0) {
-    return {
-      answer:
-        language === "de-DE"
-          ? "Bitte geben Sie eine Spalte an, für die Sie den Minimalwert finden möchten."
-          : "Please specify a column for which you want to find the minimum value.",
-      explanation: "",
-      data: null,
-      followUpQuestions: [],
-      confidence: 0.5,
-      usedColumns: [],
-      operation: "min",
-    }
-  }
-
-  const column = mentionedColumns[0]
-  const values = data.map((row) => Number.parseFloat(row[column])).filter((val) => !isNaN(val))
-
-  if (values.length === 0) {
-    return {
-      answer:
-        language === "de-DE"
-          ? `Ich konnte keine numerischen Werte in der Spalte ${column} finden.`
-          : `I couldn't find any numeric values in the ${column} column.`,
-      explanation: "",
-      data: null,
-      followUpQuestions: [],
-      confidence: 0.7,
-      usedColumns: [column],
-      operation: "min",
-    }
-  }
-
-  const min = Math.min(...values)
-
-  return {
-    answer:
-      language === "de-DE" ? `Der Minimalwert von ${column} ist ${min}.` : `The minimum value of ${column} is ${min}.`,
-    explanation:
-      language === "de-DE"
-        ? `Ich habe den kleinsten Wert in der Spalte ${column} gefunden.`
-        : `I found the smallest value in the ${column} column.`,
-    data: data.filter((row) => Number.parseFloat(row[column]) === min).slice(0, 10),
-    followUpQuestions: [
-      language === "de-DE" ? `Was ist der Maximalwert von ${column}?` : `What is the maximum value of ${column}?`,
-      language === "de-DE" ? `Was ist der Durchschnitt von ${column}?` : `What is the average of ${column}?`,
-      language === "de-DE" ? `Wie viele Einträge haben den Minimalwert?` : `How many entries have the minimum value?`,
-    ],
-    confidence: 0.9,
-    usedColumns: [column],
-    operation: "min",
-  }
+// Speech output engines: the browser's speechSynthesis or a local neural voice
+type TtsBackendName = "browser" | "local"
+type TtsVoice = {
+  id: string
+  name: string
+  language: "en-US" | "de-DE"
 }
-
-// Find maximum value
-const findMaximum = (query: string, data: any[], mentionedColumns: string[], language: Language): QueryResult => {
-  if (mentionedColumns.length === 0) {
-    return {
-      answer:
-        language === "de-DE"
-          ? "Bitte geben Sie eine Spalte an, für die Sie den Maximalwert finden möchten."
-          : "Please specify a column for which you want to find the maximum value.",
-      explanation: "",
-      data: null,
-      followUpQuestions: [],
-      confidence: 0.5,
-      usedColumns: [],
-      operation: "max",
-    }
-  }
-
-  const column = mentionedColumns[0]
-  const values = data.map((row) => Number.parseFloat(row[column])).filter((val) => !isNaN(val))
-
-  if (values.length === 0) {
-    return {
-      answer:
-        language === "de-DE"
-          ? `Ich konnte keine numerischen Werte in der Spalte ${column} finden.`
-          : `I couldn't find any numeric values in the ${column} column.`,
-      explanation: "",
-      data: null,
-      followUpQuestions: [],
-      confidence: 0.7,
-      usedColumns: [column],
-      operation: "max",
-    }
-  }
-
-  const max = Math.max(...values)
-
-  return {
-    answer:
-      language === "de-DE" ? `Der Maximalwert von ${column} ist ${max}.` : `The maximum value of ${column} is ${max}.`,
-    explanation:
-      language === "de-DE"
-        ? `Ich habe den größten Wert in der Spalte ${column} gefunden.`
-        : `I found the largest value in the ${column} column.`,
-    data: data.filter((row) => Number.parseFloat(row[column]) === max).slice(0, 10),
-    followUpQuestions: [
-      language === "de-DE" ? `Was ist der Minimalwert von ${column}?` : `What is the minimum value of ${column}?`,
-      language === "de-DE" ? `Was ist der Durchschnitt von ${column}?` : `What is the average of ${column}?`,
-      language === "de-DE" ? `Wie viele Einträge haben den Maximalwert?` : `How many entries have the maximum value?`,
-    ],
-    confidence: 0.9,
-    usedColumns: [column],
-    operation: "max",
-  }
+type TtsOptions = {
+  language: "en-US" | "de-DE"
+  rate: number
+  pitch: number
+  volume: number
+  voice?: string
+  // Called when the audio starts playing, after the voice was loaded and the text synthesized
+  onStart?: () => void
 }
-
-// Calculate correlation
-const calculateCorrelation = (
-  query: string,
-  data: any[],
-  mentionedColumns: string[],
-  language: Language,
-): QueryResult => {
-  if (mentionedColumns.length < 2) {
-    return {
-      answer:
-        language === "de-DE"
-          ? "Bitte geben Sie zwei Spalten an, zwischen denen Sie die Korrelation berechnen möchten."
-          : "Please specify two columns between which you want to calculate correlation.",
-      explanation: "",
-      data: null,
-      followUpQuestions: [],
-      confidence: 0.5,
-      usedColumns: mentionedColumns,
-      operation: "correlation",
-    }
-  }
-
-  const column1 = mentionedColumns[0]
-  const column2 = mentionedColumns[1]
-
-  // Get numeric values from both columns
-  const values1 = data.map((row) => Number.parseFloat(row[column1])).filter((val) => !isNaN(val))
-  const values2 = data.map((row) => Number.parseFloat(row[column2])).filter((val) => !isNaN(val))
-
-  // Need matching pairs of values
-  const minLength = Math.min(values1.length, values2.length)
-
-  if (minLength < 5) {
-    return {
-      answer:
-        language === "de-DE"
-          ? `Es gibt nicht genügend numerische Daten in ${column1} und ${column2}, um eine Korrelation zu berechnen.`
-          : `There isn't enough numeric data in ${column1} and ${column2} to calculate correlation.`,
-      explanation: "",
-      data: null,
-      followUpQuestions: [],
-      confidence: 0.7,
-      usedColumns: [column1, column2],
-      operation: "correlation",
-    }
-  }
-
-  // Calculate correlation coefficient (Pearson)
-  const mean1 = values1.reduce((sum, val) => sum + val, 0) / values1.length
-  const mean2 = values2.reduce((sum, val) => sum + val, 0) / values2.length
-
-  let numerator = 0
-  let denominator1 = 0
-  let denominator2 = 0
-
-  for (let i = 0; i < minLength; i++) {
-    const diff1 = values1[i] - mean1
-    const diff2 = values2[i] - mean2
-
-    numerator += diff1 * diff2
-    denominator1 += diff1 * diff1
-    denominator2 += diff2 * diff2
-  }
-
-  const correlation = numerator / (Math.sqrt(denominator1) * Math.sqrt(denominator2))
-
-  // Interpret correlation
-  let interpretation = ""
-  if (Math.abs(correlation) < 0.3) {
-    interpretation = language === "de-DE" ? "schwache" : "weak"
-  } else if (Math.abs(correlation) < 0.7) {
-    interpretation = language === "de-DE" ? "moderate" : "moderate"
-  } else {
-    interpretation = language === "de-DE" ? "starke" : "strong"
-  }
-
-  const direction =
-    correlation > 0 ? (language === "de-DE" ? "positive" : "positive") : language === "de-DE" ? "negative" : "negative"
-
-  return {
-    answer:
-      language === "de-DE"
-        ? `Die Korrelation zwischen ${column1} und ${column2} ist ${correlation.toFixed(2)}, was auf eine ${interpretation} ${direction} Beziehung hinweist.`
-        : `The correlation between ${column1} and ${column2} is ${correlation.toFixed(2)}, indicating a ${interpretation} ${direction} relationship.`,
-    explanation:
-      language === "de-DE"
-        ? `Ich habe den Pearson-Korrelationskoeffizienten zwischen den Spalten ${column1} und ${column2} berechnet. Ein Wert nahe 1 bedeutet eine starke positive Korrelation, ein Wert nahe -1 bedeutet eine starke negative Korrelation, und ein Wert nahe 0 bedeutet keine Korrelation.`
-        : `I calculated the Pearson correlation coefficient between the ${column1} and ${column2} columns. A value close to 1 indicates a strong positive correlation, a value close to -1 indicates a strong negative correlation, and a value close to 0 indicates no correlation.`,
-    data: data.map((row) => ({ [column1]: row[column1], [column2]: row[column2] })).slice(0, 10),
-    followUpQuestions: [
-      language === "de-DE" ? `Was ist der Durchschnitt von ${column1}?` : `What is the average of ${column1}?`,
-      language === "de-DE" ? `Was ist der Durchschnitt von ${column2}?` : `What is the average of ${column2}?`,
-      language === "de-DE"
-        ? `Gibt es andere Spalten, die mit ${column1} korrelieren?`
-        : `Are there other columns that correlate with ${column1}?`,
-    ],
-    confidence: 0.9,
-    usedColumns: [column1, column2],
-    operation: "correlation",
-  }
+type TtsBackend = {
+  name: TtsBackendName
+  getVoices: () => Promise<TtsVoice[]>
+  // Resolves to true when the text was spoken completely, false when it was cancelled
+  speak: (text: string, options: TtsOptions) => Promise<boolean>
+  cancel: () => void
 }
-
-// Find unique values
-const findUniqueValues = (query: string, data: any[], mentionedColumns: string[], language: Language): QueryResult => {
-  if (mentionedColumns.length === 0) {
-    return {
-      answer:
-        language === "de-DE"
-          ? "Bitte geben Sie eine Spalte an, für die Sie einzigartige Werte finden möchten."
-          : "Please specify a column for which you want to find unique values.",
-      explanation: "",
-      data: null,
-      followUpQuestions: [],
-      confidence: 0.5,
-      usedColumns: [],
-      operation: "unique",
-    }
-  }
-
-  const column = mentionedColumns[0]
-  const allValues = data.map((row) => row[column])
-  const uniqueValues = [...new Set(allValues.filter((val) => val !== undefined && val !== null && val !== ""))]
-
-  if (uniqueValues.length === 0) {
-    return {
-      answer:
-        language === "de-DE"
-          ? `Die Spalte ${column} enthält keine Werte oder ist leer.`
-          : `The ${column} column contains no values or is empty.`,
-      explanation: "",
-      data: null,
-      followUpQuestions: [],
-      confidence: 0.7,
-      usedColumns: [column],
-      operation: "unique",
-    }
-  }
-
-  // Limit the number of values to display
-  const displayLimit = 10
-  const displayValues = uniqueValues.slice(0, displayLimit).join(", ")
-  const remainingCount = uniqueValues.length - displayLimit
-
-  let valueList = displayValues
-  if (remainingCount > 0) {
-    valueList += language === "de-DE" ? ` und ${remainingCount} weitere` : ` and ${remainingCount} more`
-  }
-
-  return {
-    answer:
-      language === "de-DE"
-        ? `Die Spalte ${column} enthält ${uniqueValues.length} einzigartige Werte: ${valueList}.`
-        : `The ${column} column contains ${uniqueValues.length} unique values: ${valueList}.`,
-    explanation:
-      language === "de-DE"
-        ? `Ich habe alle einzigartigen Werte in der Spalte ${column} gefunden und gezählt.`
-        : `I found and counted all unique values in the ${column} column.`,
-    data: uniqueValues.slice(0, 20).map((value) => ({ [column]: value })),
-    followUpQuestions: [
-      language === "de-DE" ? `Wie viele Einträge gibt es in ${column}?` : `How many entries are there in ${column}?`,
-      language === "de-DE" ? `Was ist der häufigste Wert in ${column}?` : `What is the most common value in ${column}?`,
-      language === "de-DE"
-        ? `Wie ist die Verteilung der Werte in ${column}?`
-        : `What is the distribution of values in ${column}?`,
-    ],
-    confidence: 0.9,
-    usedColumns: [column],
-    operation: "unique",
-  }
+// The voice chosen for each language, per speech output engine
+type VoiceChoices = Partial<Record<TtsBackendName, Partial<Record<"en-US" | "de-DE", string>>>>
+type SpeechPreferences = {
+  settings?: Partial<SpeechSettings>
+  language?: Language
 }
+type VisualizationType = "table" | "chart" | null
 
-// Get data overview
-const getDataOverview = (data: any[], columns: string[], language: Language): QueryResult => {
-  const numRows = data.length
-  const numCols = columns.length
-
-  // Count numeric columns
-  let numericColumns = 0
-  for (const col of columns) {
-    const values = data.slice(0, 10).map((row) => row[col])
-    const allNumbers = values.every((val) => val !== undefined && val !== null && val !== "" && !isNaN(Number(val)))
-    if (allNumbers) numericColumns++
-  }
+// Declare SpeechRecognition
+declare var webkitSpeechRecognition: any
 
-  return {
-    answer:
-      language === "de-DE"
-        ? `Tabellenübersicht: ${numRows} Zeilen, ${numCols} Spalten. Davon sind etwa ${numericColumns} Spalten numerisch. Die Spalten sind: ${columns.join(", ")}.`
-        : `Sheet overview: ${numRows} rows, ${numCols} columns. Approximately ${numericColumns} columns contain numeric data. The columns are: ${columns.join(", ")}.`,
-    explanation:
-      language === "de-DE"
-        ? "Ich habe die grundlegenden Eigenschaften der Tabelle analysiert, einschließlich der Anzahl der Zeilen, Spalten und der Art der Daten."
-        : "I analyzed the basic properties of the sheet, including the number of rows, columns, and the type of data.",
-    data: null,
-    followUpQuestions: [
-      language === "de-DE" ? "Welche Spalten enthalten numerische Daten?" : "Which columns contain numeric data?",
-      language === "de-DE"
-        ? "Was ist die Spalte mit den meisten einzigartigen Werten?"
-        : "What is the column with the most unique values?",
-      language === "de-DE"
-        ? "Gibt es Korrelationen zwischen den numerischen Spalten?"
-        : "Are there correlations between the numeric columns?",
-    ],
-    confidence: 0.9,
-    usedColumns: columns,
-    operation: "overview",
+// Add global microphone analyser
+declare global {
+  interface Window {
+    microphoneAnalyser: AnalyserNode | null
   }
 }
 
-// Generate follow-up questions
-const generateFollowUpQuestions = (columns: string[], language: Language): string[] => {
-  const questions: string[] = []
-
-  // Select a few random columns for follow-up questions
-  const randomColumns = columns.sort(() => 0.5 - Math.random()).slice(0, Math.min(3, columns.length))
-
-  for (const column of randomColumns) {
-    if (language === "de-DE") {
-      questions.push(`Was ist der Durchschnitt von ${column}?`)
-      questions.push(`Wie viele einzigartige Werte gibt es in ${column}?`)
-    } else {
-      questions.push(`What is the average of ${column}?`)
-      questions.push(`How many unique values are there in ${column}?`)
-    }
-  }
-
-  // Add general questions
-  if (language === "de-DE") {
-    questions.push("Gib mir einen Überblick über die Daten.")
-    questions.push("Wie viele Einträge gibt es insgesamt?")
-  } else {
-    questions.push("Give me an overview of the data.")
-    questions.push("How many entries are there in total?")
-  }
-
-  // Return a subset of questions
-  return questions.slice(0, 5)
+// Initialize global microphone analyser
+if (typeof window !== "undefined") {
+  window.microphoneAnalyser = null
 }
 
 // Load TensorFlow.js model for NLP
@@ -1407,6 +412,7 @@ const improveAIModelWithContext = async (excelData: ExcelData, nlpModel: NLPMode
     // Extract column statistics for context awareness
     const columnStats: Record<string, any> = {}
     const columns = Object.keys(currentSheet[0])
+    const decimalSeparators = getColumnDecimalSeparators(currentSheet, null)
 
     for (const column of columns) {
       // Get column values
@@ -1418,7 +424,7 @@ const improveAIModelWithContext = async (excelData: ExcelData, nlpModel: NLPMode
       if (!values.length) continue
 
       // Determine column type
-      const numericValues = values.map((v) => Number.parseFloat(String(v))).filter((v) => !isNaN(v))
+      const numericValues = values.map((v) => parseCellNumber(v, decimalSeparators[column])).filter((v) => !isNaN(v))
       const isNumeric = numericValues.length > values.length * 0.5 // More than 50% are numbers
 
       // Calculate basic statistics for numeric columns
@@ -1460,6 +466,477 @@ const improveAIModelWithContext = async (excelData: ExcelData, nlpModel: NLPMode
   }
 }
 
+// Offline speech models for the local recognizer, served from public/models. They aren't part of
+// the repository; public/models/README.md explains how to set them up.
+const localAsrModelUrls: Record<"en-US" | "de-DE", string> = {
+  "en-US": "/models/vosk-model-small-en-us-0.15.tar.gz",
+  "de-DE": "/models/vosk-model-small-de-0.15.tar.gz",
+}
+
+// The languages whose offline speech model is in place
+const findLocalAsrLanguages = async (): Promise<("en-US" | "de-DE")[]> => {
+  const languages = Object.keys(localAsrModelUrls) as ("en-US" | "de-DE")[]
+  const available = await Promise.all(
+    languages.map((language) =>
+      fetch(localAsrModelUrls[language], { method: "HEAD" })
+        .then((response) => response.ok)
+        .catch(() => false),
+    ),
+  )
+  return languages.filter((_, index) => available[index])
+}
+
+// Explain a Web Speech API error code
+const describeWebSpeechError = (code: string): string => {
+  switch (code) {
+    case "no-speech":
+      return "No speech was detected. Please make sure your microphone is working and try speaking louder."
+    case "audio-capture":
+      return "No microphone was found. Please ensure your microphone is connected and permissions are granted."
+    case "not-allowed":
+      return "Microphone access was denied. Please allow microphone access in your browser settings."
+    case "network":
+      return "Network error occurred. Please check your internet connection."
+    case "aborted":
+      return "Speech recognition was aborted."
+    default:
+      return `Speech recognition error: ${code}`
+  }
+}
+
+// Recognition with the browser's Web Speech API. Chrome sends the audio to a cloud service for this.
+// Returns null if the browser doesn't have the API (e.g. Firefox).
+const createWebSpeechBackend = (): AsrBackend | null => {
+  if (typeof window === "undefined") return null
+  const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition
+  if (!SpeechRecognition) return null
+
+  const recognition = new SpeechRecognition()
+  recognition.continuous = true
+  recognition.interimResults = true
+  let active = false
+
+  const backend: AsrBackend = {
+    name: "web-speech",
+    isLocal: false,
+    onResult: null,
+    onError: null,
+    onEnd: null,
+    start: async ({ language }) => {
+      recognition.lang = language === "de-DE" ? "de-DE" : "en-US"
+      recognition.onresult = (event: any) => {
+        for (let i = event.resultIndex; i < event.results.length; i++) {
+          backend.onResult?.({
+            transcript: event.results[i][0].transcript,
+            confidence: event.results[i][0].confidence,
+            isFinal: event.results[i].isFinal,
+          })
+        }
+      }
+      recognition.onerror = (event: any) => {
+        // Silence only ends this session, and onend starts the next one
+        if (event.error === "no-speech") return
+        // "aborted" follows stop(). Other errors end listening: restarting doesn't bring back
+        // a denied or missing microphone or a lost connection.
+        if (event.error === "aborted" && !active) return
+        active = false
+        backend.onError?.({ code: event.error, message: describeWebSpeechError(event.error) })
+      }
+      recognition.onend = () => {
+        // The browser ends recognition after some silence; keep listening until stopped
+        if (active) recognition.start()
+        else backend.onEnd?.()
+      }
+      active = true
+      recognition.start()
+    },
+    stop: () => {
+      active = false
+      recognition.stop()
+    },
+    setLanguage: (language) => {
+      recognition.lang = language === "de-DE" ? "de-DE" : "en-US"
+    },
+  }
+  return backend
+}
+
+// Recognition with Vosk compiled to WebAssembly. It runs on the microphone stream in the page's
+// AudioContext, so the audio never leaves the machine. Models are loaded once per language.
+const createLocalAsrBackend = (): AsrBackend => {
+  const models = new Map<string, Promise<Model>>()
+  let session: {
+    recognizer: KaldiRecognizer
+    source: MediaStreamAudioSourceNode
+    processor: ScriptProcessorNode
+  } | null = null
+  let lastOptions: { language: Language; stream: MediaStream; audioContext: AudioContext } | null = null
+
+  const loadModel = (url: string) => {
+    if (!models.has(url)) {
+      models.set(
+        url,
+        import("vosk-browser").then(({ createModel }) => createModel(url)),
+      )
+    }
+    return models.get(url) as Promise<Model>
+  }
+
+  const endSession = () => {
+    if (!session) return
+    session.processor.onaudioprocess = null
+    session.source.disconnect(session.processor)
+    session.processor.disconnect()
+    session.recognizer.remove()
+    session = null
+  }
+
+  const backend: AsrBackend = {
+    name: "local",
+    isLocal: true,
+    onResult: null,
+    onError: null,
+    onEnd: null,
+    start: async (options) => {
+      endSession()
+      lastOptions = options
+      const { language, stream, audioContext } = options
+      const modelUrl = localAsrModelUrls[language === "de-DE" ? "de-DE" : "en-US"]
+
+      let model: Model
+      try {
+        model = await loadModel(modelUrl)
+      } catch (error) {
+        models.delete(modelUrl)
+        backend.onError?.({
+          code: "model-load",
+          message: `The offline speech model could not be loaded from ${modelUrl}. Please place the Vosk model there.`,
+        })
+        return
+      }
+
+      // A context created before the user interacted with the page starts suspended and would only
+      // deliver silence to the recognizer
+      if (audioContext.state === "suspended") await audioContext.resume()
+      // Listening was stopped or restarted while the model loaded
+      if (lastOptions !== options) return
+
+      const recognizer = new model.KaldiRecognizer(audioContext.sampleRate)
+      recognizer.on("partialresult", (message) => {
+        if (message.event !== "partialresult" || !message.result.partial) return
+        backend.onResult?.({ transcript: message.result.partial, confidence: 1, isFinal: false })
+      })
+      recognizer.on("result", (message) => {
+        if (message.event !== "result" || !message.result.text) return
+        const words = message.result.result || []
+        const confidence = words.length > 0 ? words.reduce((sum, word) => sum + word.conf, 0) / words.length : 1
+        backend.onResult?.({ transcript: message.result.text, confidence, isFinal: true })
+      })
+      recognizer.on("error", (message) => {
+        if (message.event !== "error") return
+        backend.onError?.({ code: "recognizer", message: `Offline speech recognition error: ${message.error}` })
+      })
+
+      // Feed the microphone audio to the recognizer; the processor outputs silence
+      const source = audioContext.createMediaStreamSource(stream)
+      const processor = audioContext.createScriptProcessor(4096, 1, 1)
+      processor.onaudioprocess = (event) => recognizer.acceptWaveform(event.inputBuffer)
+      source.connect(processor)
+      processor.connect(audioContext.destination)
+      session = { recognizer, source, processor }
+    },
+    stop: () => {
+      endSession()
+      lastOptions = null
+      backend.onEnd?.()
+    },
+    setLanguage: (language) => {
+      // Switching languages means switching models
+      if (session && lastOptions && lastOptions.language !== language) {
+        backend.start({ ...lastOptions, language })
+      }
+    },
+  }
+  return backend
+}
+
+// Neural voices for the local synthesizer (Piper), the first of each language is the default. A voice
+// model is downloaded once and cached in the browser; the answers themselves are synthesized on this device.
+const localTtsVoices: TtsVoice[] = [
+  { id: "en_US-hfc_female-medium", name: "HFC (female)", language: "en-US" },
+  { id: "en_US-hfc_male-medium", name: "HFC (male)", language: "en-US" },
+  { id: "en_US-amy-medium", name: "Amy", language: "en-US" },
+  { id: "en_US-lessac-medium", name: "Lessac", language: "en-US" },
+  { id: "en_US-ryan-medium", name: "Ryan", language: "en-US" },
+  { id: "de_DE-thorsten-medium", name: "Thorsten", language: "de-DE" },
+  { id: "de_DE-kerstin-low", name: "Kerstin", language: "de-DE" },
+  { id: "de_DE-ramona-low", name: "Ramona", language: "de-DE" },
+  { id: "de_DE-karlsson-low", name: "Karlsson", language: "de-DE" },
+]
+
+// Speech output with the browser's speechSynthesis. Returns null if the browser doesn't have it.
+const createBrowserTtsBackend = (): TtsBackend | null => {
+  if (typeof window === "undefined" || !window.speechSynthesis) return null
+  const synth = window.speechSynthesis
+
+  // English and German voices of the browser and operating system
+  const readVoices = (): TtsVoice[] =>
+    synth
+      .getVoices()
+      .filter((voice) => /^(en|de)/i.test(voice.lang))
+      .map((voice) => ({
+        id: voice.voiceURI,
+        name: voice.name,
+        language: /^de/i.test(voice.lang) ? "de-DE" : "en-US",
+      }))
+
+  return {
+    name: "browser",
+    getVoices: () =>
+      new Promise((resolve) => {
+        const voices = readVoices()
+        if (voices.length > 0) return resolve(voices)
+        // Chrome loads its voices asynchronously, and some browsers never announce them
+        synth.addEventListener("voiceschanged", () => resolve(readVoices()), { once: true })
+        setTimeout(() => resolve(readVoices()), 1000)
+      }),
+    speak: (text, { language, rate, pitch, volume, voice, onStart }) =>
+      new Promise((resolve, reject) => {
+        synth.cancel()
+        const utterance = new SpeechSynthesisUtterance(text)
+        utterance.lang = language
+        utterance.voice = synth.getVoices().find((available) => available.voiceURI === voice) || null
+        utterance.rate = rate
+        utterance.pitch = pitch
+        utterance.volume = volume
+        utterance.onstart = () => onStart?.()
+        utterance.onend = () => resolve(true)
+        utterance.onerror = (event) => {
+          // Cancelling interrupts the utterance, which isn't an error
+          if (event.error === "interrupted" || event.error === "canceled") resolve(false)
+          else reject(new Error(event.error))
+        }
+        synth.speak(utterance)
+      }),
+    cancel: () => synth.cancel(),
+  }
+}
+
+// Change the tempo of speech without changing its pitch (WSOLA): overlapping 30 ms frames are taken from
+// the input at the new tempo, each moved by up to 10 ms to where it continues the previous frame best.
+const changeTempo = (
+  input: Float32Array<ArrayBuffer>,
+  tempo: number,
+  sampleRate: number,
+): Float32Array<ArrayBuffer> => {
+  const frameLength = Math.round(sampleRate * 0.03)
+  const hop = Math.floor(frameLength / 2)
+  const maxShift = Math.round(sampleRate * 0.01)
+  if (Math.abs(tempo - 1) < 0.01 || input.length < frameLength + 2 * maxShift) return input
+
+  const frameWindow = Float32Array.from(
+    { length: frameLength },
+    (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / frameLength),
+  )
+  const outputLength = Math.round(input.length / tempo)
+  const output = new Float32Array(outputLength + frameLength)
+  const weights = new Float32Array(outputLength + frameLength)
+  let previous: number | null = null
+
+  for (let position = 0; position < outputLength; position += hop) {
+    const target = Math.min(Math.round(position * tempo), input.length - frameLength)
+    let start = target
+    // Where the previous frame's audio naturally goes on, which the new frame overlaps
+    const natural = previous === null ? null : previous + hop
+    if (natural !== null && natural + hop <= input.length) {
+      let bestScore = -Infinity
+      const last = Math.min(input.length - frameLength, target + maxShift)
+      for (let candidate = Math.max(0, target - maxShift); candidate <= last; candidate++) {
+        let score = 0
+        for (let i = 0; i < hop; i += 2) score += input[candidate + i] * input[natural + i]
+        if (score > bestScore) {
+          bestScore = score
+          start = candidate
+        }
+      }
+    }
+
+    for (let i = 0; i < frameLength; i++) {
+      output[position + i] += input[start + i] * frameWindow[i]
+      weights[position + i] += frameWindow[i]
+    }
+    previous = start
+  }
+
+  for (let i = 0; i < outputLength; i++) {
+    if (weights[i] > 1e-3) output[i] /= weights[i]
+  }
+  return output.subarray(0, outputLength)
+}
+
+// Speech output with Piper, a neural voice running on ONNX Runtime in WebAssembly. The audio is
+// played through the page's AudioContext.
+const createLocalTtsBackend = (audioContext: AudioContext): TtsBackend => {
+  let playing: AudioBufferSourceNode | null = null
+  let generation = 0
+
+  const backend: TtsBackend = {
+    name: "local",
+    getVoices: async () => localTtsVoices,
+    speak: async (text, { language, rate, pitch, volume, voice, onStart }) => {
+      backend.cancel()
+      const speechId = generation
+
+      const voiceId =
+        localTtsVoices.find((available) => available.id === voice && available.language === language)?.id ||
+        (localTtsVoices.find((available) => available.language === language) as TtsVoice).id
+      const { predict } = await import("@mintplex-labs/piper-tts-web")
+      const wav = await predict({ text, voiceId })
+      const decoded = await audioContext.decodeAudioData(await wav.arrayBuffer())
+      if (speechId !== generation) return false
+      if (audioContext.state === "suspended") await audioContext.resume()
+
+      // Piper has neither rate nor pitch controls. Pitch is applied by resampling on playback, which speeds
+      // the speech up by the same factor, so the tempo is first changed by what remains to reach the rate.
+      const samples = changeTempo(decoded.getChannelData(0), rate / pitch, decoded.sampleRate)
+      const buffer = audioContext.createBuffer(1, samples.length, decoded.sampleRate)
+      buffer.copyToChannel(samples, 0)
+
+      const source = audioContext.createBufferSource()
+      source.buffer = buffer
+      source.playbackRate.value = pitch
+      const gain = audioContext.createGain()
+      gain.gain.value = volume
+      source.connect(gain)
+      gain.connect(audioContext.destination)
+
+      return new Promise<boolean>((resolve) => {
+        source.onended = () => {
+          gain.disconnect()
+          if (playing === source) playing = null
+          resolve(speechId === generation)
+        }
+        playing = source
+        source.start()
+        onStart?.()
+      })
+    },
+    cancel: () => {
+      generation++
+      playing?.stop()
+    },
+  }
+  return backend
+}
+
+// Barge-in: while an answer is spoken, watch the microphone's voice band (300–3400 Hz) and report
+// when the user starts talking. The answer's own echo also reaches the microphone, so the first
+// moments of playback calibrate an echo level, which follows quieter and louder passages of the
+// answer. The user's voice has to clearly exceed it for a sustained stretch.
+const watchForBargeIn = (analyser: AnalyserNode, sensitivity: number, onSpeech: () => void): (() => void) => {
+  const spectrum = new Uint8Array(analyser.frequencyBinCount)
+  const binWidth = analyser.context.sampleRate / analyser.fftSize
+  const firstBin = Math.floor(300 / binWidth)
+  const lastBin = Math.min(spectrum.length - 1, Math.ceil(3400 / binWidth))
+  const calibrationMs = 400
+  const sustainMs = 250
+  const minimumLevel = 0.12
+  // A more sensitive setting lets quieter speech interrupt, at the risk of the echo doing so
+  const echoFactor = 1.5 + 2 * (1 - sensitivity)
+
+  const startedAt = performance.now()
+  let echoLevel = 0
+  let speechSince: number | null = null
+
+  const timer = setInterval(() => {
+    analyser.getByteFrequencyData(spectrum)
+    let sum = 0
+    for (let bin = firstBin; bin <= lastBin; bin++) sum += spectrum[bin]
+    const level = sum / (lastBin - firstBin + 1) / 255
+    const now = performance.now()
+
+    if (now - startedAt < calibrationMs) {
+      echoLevel = Math.max(echoLevel, level)
+      return
+    }
+
+    if (level > Math.max(minimumLevel, echoLevel * echoFactor)) {
+      speechSince ??= now
+      if (now - speechSince >= sustainMs) {
+        clearInterval(timer)
+        onSpeech()
+      }
+    } else {
+      speechSince = null
+      echoLevel = Math.max(level, echoLevel * 0.98)
+    }
+  }, 50)
+
+  return () => clearInterval(timer)
+}
+
+// Spoken commands that stop the answer without asking something new
+const isStopCommand = (transcript: string) =>
+  /^\s*(?:stop|stopp|stop it|halt|hör auf|be quiet|sei still)[\s.!]*$/i.test(transcript)
+
+// Wake word ("Hey Excel", "Hallo Excel"), matched loosely since small offline models often mishear
+// "Excel". Returns what was said after it, or null if the transcript doesn't contain it.
+const wakeWordGreetings = ["hey", "hi", "hello", "okay", "ok", "hallo"]
+const findWakeWord = (transcript: string): string | null => {
+  const words = transcript.trim().split(/\s+/)
+  const normalize = (word: string) => word.toLowerCase().replace(/[^\p{L}]/gu, "")
+  for (let i = 0; i < words.length - 1; i++) {
+    if (wakeWordGreetings.includes(normalize(words[i])) && editDistance(normalize(words[i + 1]), "excel") <= 1) {
+      return words
+        .slice(i + 2)
+        .join(" ")
+        .replace(/^[\s,.!?]+/, "")
+    }
+  }
+  return null
+}
+
+// How long speech still counts as a query after the talk button is released (the final result
+// arrives a moment later) and after a wake word without a query
+const pushToTalkGraceMs = 1500
+const wakeWordWindowMs = 8000
+
+const listeningModeLabels: Record<ListeningMode, Record<"en-US" | "de-DE", string>> = {
+  "always-on": { "en-US": "Always on", "de-DE": "Immer an" },
+  "push-to-talk": { "en-US": "Push-to-talk", "de-DE": "Sprechtaste" },
+  "wake-word": { "en-US": "Wake word", "de-DE": "Aktivierungswort" },
+}
+
+const speechPreferencesStorageKey = "speech-preferences"
+
+// Read the speech settings and language chosen on an earlier visit
+const loadSpeechPreferences = (): SpeechPreferences => {
+  if (typeof window === "undefined") return {}
+  try {
+    const stored = window.localStorage.getItem(speechPreferencesStorageKey)
+    return stored ? (JSON.parse(stored) as SpeechPreferences) : {}
+  } catch (error) {
+    console.error("Could not load speech preferences:", error)
+    return {}
+  }
+}
+
+// Store the speech settings and language in the browser
+const saveSpeechPreferences = (preferences: SpeechPreferences) => {
+  if (typeof window === "undefined") return
+  try {
+    window.localStorage.setItem(speechPreferencesStorageKey, JSON.stringify(preferences))
+  } catch (error) {
+    console.error("Could not save speech preferences:", error)
+  }
+}
+
+// Sentences spoken when previewing a voice
+const voicePreviewTexts: Record<"en-US" | "de-DE", string> = {
+  "en-US": "Hello! This is how I will read out the answers about your spreadsheet.",
+  "de-DE": "Hallo! So lese ich Ihnen die Antworten zu Ihrer Tabelle vor.",
+}
+
 export default function ExcelVoiceAnalyzer() {
   // State
   const [status, setStatus] = useState<Status>("idle")
@@ -1481,21 +958,46 @@ export default function ExcelVoiceAnalyzer() {
     rate: 1,
     pitch: 1,
     volume: 1,
+    recognitionEngine: "web-speech",
+    listeningMode: "always-on",
+    synthesisEngine: "browser",
+    voices: {},
   })
   const [isListening, setIsListening] = useState(false)
   const [showSettings, setShowSettings] = useState(false)
   const [detectedLanguage, setDetectedLanguage] = useState<Language>(null)
   const [nlpModel, setNlpModel] = useState<NLPModel>({ model: null, encoder: null, tokenizer: null, loaded: false })
   const [modelLoading, setModelLoading] = useState(false)
+  const [analysisScope, setAnalysisScope] = useState<FilterCondition[]>([])
+  const [columnAliases, setColumnAliases] = useState<ColumnAliases>({})
+  const [showAliasEditor, setShowAliasEditor] = useState(false)
+  const [availableVoices, setAvailableVoices] = useState<TtsVoice[]>([])
+  const [queryWindowOpen, setQueryWindowOpen] = useState(false)
+  // Languages the local recognizer has a model for, null until checked
+  const [localAsrLanguages, setLocalAsrLanguages] = useState<("en-US" | "de-DE")[] | null>(null)
 
   // Refs
   const fileInputRef = useRef<HTMLInputElement>(null)
   const dropZoneRef = useRef<HTMLDivElement>(null)
-  const recognitionRef = useRef<SpeechRecognition | null>(null)
-  const synthRef = useRef<SpeechSynthesis | null>(null)
+  const asrBackendsRef = useRef<Partial<Record<AsrBackendName, AsrBackend>>>({})
+  const asrBackendRef = useRef<AsrBackend | null>(null)
+  const ttsBackendsRef = useRef<Partial<Record<TtsBackendName, TtsBackend>>>({})
+  const ttsBackendRef = useRef<TtsBackend | null>(null)
   const audioContextRef = useRef<AudioContext | null>(null)
   const analyserRef = useRef<AnalyserNode | null>(null)
   const microphoneStreamRef = useRef<MediaStream | null>(null)
+  const previousPlanRef = useRef<QueryPlan | null>(null)
+  const analysisScopeRef = useRef<FilterCondition[]>([])
+  const columnAliasesRef = useRef<ColumnAliases>({})
+  const workbookFingerprintRef = useRef<string | null>(null)
+  const speechPreferencesLoadedRef = useRef(false)
+  const isSpeakingRef = useRef(false)
+  const stopBargeInWatchRef = useRef<(() => void) | null>(null)
+  const listeningModeRef = useRef<ListeningMode>("always-on")
+  const speechSettingsRef = useRef<SpeechSettings>(speechSettings)
+  const queryWindowUntilRef = useRef(0)
+  const queryWindowTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const pushToTalkButtonRef = useRef<HTMLButtonElement>(null)
 
   // Add this state for manual input
   const [manualInput, setManualInput] = useState("")
@@ -1526,22 +1028,34 @@ export default function ExcelVoiceAnalyzer() {
   // Initialize speech recognition and synthesis
   useEffect(() => {
     if (typeof window !== "undefined") {
-      // Speech Recognition setup
-      const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition
-      if (SpeechRecognition) {
-        recognitionRef.current = new SpeechRecognition()
-        recognitionRef.current.continuous = true
-        recognitionRef.current.interimResults = true
-      } else {
-        setError("Speech recognition is not supported in your browser.")
+      // Restore the speech settings and language of the last visit
+      const preferences = loadSpeechPreferences()
+      if (preferences.settings) {
+        setSpeechSettings((prev) => ({ ...prev, ...preferences.settings }))
+      }
+      if (preferences.language) {
+        setLanguage(preferences.language)
       }
 
-      // Speech Synthesis setup
-      synthRef.current = window.speechSynthesis
-      if (!synthRef.current) {
-        setError("Speech synthesis is not supported in your browser.")
+      // Speech Recognition setup; without the Web Speech API only the local engine is available
+      const webSpeechBackend = createWebSpeechBackend()
+      asrBackendsRef.current = { local: createLocalAsrBackend() }
+      if (webSpeechBackend) {
+        asrBackendsRef.current["web-speech"] = webSpeechBackend
+      } else {
+        setSpeechSettings((prev) => ({ ...prev, recognitionEngine: "local" }))
       }
 
+      // The wake word needs an offline speech model; without one, a restored wake-word mode can't listen
+      findLocalAsrLanguages().then((languages) => {
+        setLocalAsrLanguages(languages)
+        if (languages.length === 0) {
+          setSpeechSettings((prev) =>
+            prev.listeningMode === "wake-word" ? { ...prev, listeningMode: "always-on" } : prev,
+          )
+        }
+      })
+
       // Audio Context for advanced audio processing
       try {
         audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)()
@@ -1550,6 +1064,21 @@ export default function ExcelVoiceAnalyzer() {
       } catch (err) {
         console.error("Web Audio API is not supported in this browser", err)
       }
+
+      // Speech Synthesis setup; the local voice plays through the audio context
+      const browserTtsBackend = createBrowserTtsBackend()
+      ttsBackendsRef.current = {}
+      if (browserTtsBackend) {
+        ttsBackendsRef.current.browser = browserTtsBackend
+      }
+      if (audioContextRef.current) {
+        ttsBackendsRef.current.local = createLocalTtsBackend(audioContextRef.current)
+      }
+      if (!browserTtsBackend && !audioContextRef.current) {
+        setError("Speech synthesis is not supported in your browser.")
+      } else if (!browserTtsBackend) {
+        setSpeechSettings((prev) => ({ ...prev, synthesisEngine: "local" }))
+      }
     }
 
     // Drag and drop setup
@@ -1598,6 +1127,69 @@ export default function ExcelVoiceAnalyzer() {
     }
   }, [])
 
+  // Remember the speech settings and language; the first run only sees the defaults
+  useEffect(() => {
+    if (!speechPreferencesLoadedRef.current) {
+      speechPreferencesLoadedRef.current = true
+      return
+    }
+    saveSpeechPreferences({ settings: speechSettings, language })
+  }, [speechSettings, language])
+
+  // Answers are spoken from the recognition callbacks set up when listening starts, so they read
+  // the speech output engine and voice settings from a ref
+  useEffect(() => {
+    speechSettingsRef.current = speechSettings
+  }, [speechSettings])
+
+  // Results arrive in callbacks set up when listening starts, so they read the mode from a ref
+  useEffect(() => {
+    listeningModeRef.current = speechSettings.listeningMode
+    closeQueryWindow()
+  }, [speechSettings.listeningMode])
+
+  // Hold the space bar to talk in push-to-talk mode, unless typing in a field or pressing another button
+  useEffect(() => {
+    if (speechSettings.listeningMode !== "push-to-talk") return
+
+    const isTyping = (event: KeyboardEvent) =>
+      event.target instanceof HTMLElement &&
+      event.target !== pushToTalkButtonRef.current &&
+      (event.target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT", "BUTTON"].includes(event.target.tagName))
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.code !== "Space" || isTyping(event)) return
+      event.preventDefault()
+      if (!event.repeat) startTalking()
+    }
+
+    const handleKeyUp = (event: KeyboardEvent) => {
+      if (event.code !== "Space" || isTyping(event)) return
+      event.preventDefault()
+      stopTalking()
+    }
+
+    window.addEventListener("keydown", handleKeyDown)
+    window.addEventListener("keyup", handleKeyUp)
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown)
+      window.removeEventListener("keyup", handleKeyUp)
+    }
+  }, [speechSettings.listeningMode, isListening])
+
+  // List the voices of the selected speech output engine
+  useEffect(() => {
+    const backend = ttsBackendsRef.current[speechSettings.synthesisEngine]
+    if (!backend) return
+    let cancelled = false
+    backend.getVoices().then((voices) => {
+      if (!cancelled) setAvailableVoices(voices)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [speechSettings.synthesisEngine])
+
   // Start listening after file upload
   useEffect(() => {
     if (excelData && status === "uploaded" && nlpModel.loaded) {
@@ -1608,12 +1200,13 @@ export default function ExcelVoiceAnalyzer() {
   // Clean up audio resources on unmount
   useEffect(() => {
     return () => {
-      if (recognitionRef.current) {
-        recognitionRef.current.stop()
+      if (asrBackendRef.current) {
+        asrBackendRef.current.stop()
       }
 
-      if (synthRef.current) {
-        synthRef.current.cancel()
+      stopBargeInWatchRef.current?.()
+      if (ttsBackendRef.current) {
+        ttsBackendRef.current.cancel()
       }
 
       if (microphoneStreamRef.current) {
@@ -1651,6 +1244,14 @@ export default function ExcelVoiceAnalyzer() {
     try {
       const data = await readExcelFile(file, setUploadProgress)
       setExcelData(data)
+      previousPlanRef.current = null
+      analysisScopeRef.current = []
+      setAnalysisScope([])
+
+      // Aliases belong to the workbook and come back when it is opened again
+      workbookFingerprintRef.current = getWorkbookFingerprint(data)
+      columnAliasesRef.current = loadColumnAliases(workbookFingerprintRef.current)
+      setColumnAliases(columnAliasesRef.current)
       setStatus("uploaded")
       clearInterval(interval)
       setUploadProgress(100)
@@ -1708,8 +1309,8 @@ export default function ExcelVoiceAnalyzer() {
     setDetectedLanguage(detectedLang)
 
     // Update recognition language
-    if (recognitionRef.current) {
-      recognitionRef.current.lang = detectedLang
+    if (asrBackendRef.current) {
+      asrBackendRef.current.setLanguage(detectedLang)
     }
 
     return detectedLang
@@ -1775,7 +1376,10 @@ export default function ExcelVoiceAnalyzer() {
 
   // Start voice recognition
   const startListening = async () => {
-    if (!recognitionRef.current) {
+    // The wake word must be recognized on this device, so that mode always uses the local engine
+    const engine = speechSettings.listeningMode === "wake-word" ? "local" : speechSettings.recognitionEngine
+    const backend = asrBackendsRef.current[engine]
+    if (!backend) {
       setError("Speech recognition is not supported in your browser. Please try a different browser like Chrome.")
       return
     }
@@ -1787,99 +1391,79 @@ export default function ExcelVoiceAnalyzer() {
 
     // Set up advanced audio processing
     const audioSetupSuccess = await setupAudioProcessing()
-    if (!audioSetupSuccess) {
+    if (!audioSetupSuccess || !microphoneStreamRef.current || !audioContextRef.current) {
       stopListening()
       return
     }
 
-    // Set language based on user preference
-    if (language === "auto") {
-      recognitionRef.current.lang = "en-US" // Start with English, will detect language later
-    } else {
-      recognitionRef.current.lang = language
-    }
-
-    // Configure recognition based on settings
-    recognitionRef.current.continuous = true
-    recognitionRef.current.interimResults = true
-
     // Adjust sensitivity
-    // Note: Web Speech API doesn't directly expose sensitivity settings,
+    // Note: neither engine exposes sensitivity settings directly,
     // but we can simulate it by adjusting how we handle results
     const sensitivityThreshold = 1 - speechSettings.sensitivity
 
-    recognitionRef.current.onstart = () => {
-      setStatus("listening")
-      console.log("Speech recognition started")
-    }
-
-    recognitionRef.current.onresult = (event) => {
-      let interimTranscript = ""
-      let finalTranscript = ""
-
-      for (let i = event.resultIndex; i < event.results.length; i++) {
-        const transcript = event.results[i][0].transcript
-        const confidence = event.results[i][0].confidence
+    backend.onResult = (result) => {
+      // "Stop" ends the spoken answer and is not a query
+      if (isStopCommand(result.transcript)) {
+        if (isSpeakingRef.current) stopSpeaking()
+        if (result.isFinal) setTranscript("")
+        return
+      }
 
-        // Apply sensitivity threshold
-        if (confidence > sensitivityThreshold) {
-          if (event.results[i].isFinal) {
-            finalTranscript += transcript
+      // While the answer is spoken, recognition mostly hears its echo; barge-in ends the answer first.
+      // In wake-word mode, the wake word interrupts the answer instead.
+      if (isSpeakingRef.current) {
+        if (listeningModeRef.current !== "wake-word" || !result.isFinal || findWakeWord(result.transcript) === null) {
+          return
+        }
+        stopSpeaking()
+      }
 
-            // Detect language if set to auto
-            if (language === "auto" && !detectedLanguage) {
-              detectLanguage(transcript)
-            }
+      // Apply sensitivity threshold
+      if (result.confidence <= sensitivityThreshold) return
 
-            // Process the query when the user stops speaking
-            processQuery(finalTranscript)
-          } else {
-            interimTranscript += transcript
-          }
+      // Show what is heard, unless the listening mode ignores it anyway
+      if (!result.isFinal) {
+        if (listeningModeRef.current === "always-on" || performance.now() <= queryWindowUntilRef.current) {
+          setTranscript(result.transcript)
         }
+        return
       }
 
-      setTranscript(finalTranscript || interimTranscript)
-    }
+      const query = admitQuery(result.transcript)
+      if (!query) return
 
-    recognitionRef.current.onerror = (event) => {
-      console.error("Speech recognition error", event.error)
-
-      let errorMessage = `Speech recognition error: ${event.error}`
-
-      // Provide more helpful error messages
-      if (event.error === "no-speech") {
-        errorMessage = "No speech was detected. Please make sure your microphone is working and try speaking louder."
-      } else if (event.error === "audio-capture") {
-        errorMessage =
-          "No microphone was found. Please ensure your microphone is connected and permissions are granted."
-      } else if (event.error === "not-allowed") {
-        errorMessage = "Microphone access was denied. Please allow microphone access in your browser settings."
-      } else if (event.error === "network") {
-        errorMessage = "Network error occurred. Please check your internet connection."
-      } else if (event.error === "aborted") {
-        errorMessage = "Speech recognition was aborted."
+      // Detect language if set to auto
+      if (language === "auto" && !detectedLanguage) {
+        detectLanguage(query)
       }
 
-      setError(errorMessage)
+      // Process the query when the user stops speaking
+      processQuery(query)
+      setTranscript(query)
+    }
+
+    backend.onError = (error) => {
+      console.error("Speech recognition error", error.code)
+      // The engine and the microphone stop with the error, so the status matches what happens
+      stopListening()
+      setError(error.message)
       setStatus("error")
-      setIsListening(false)
     }
 
-    recognitionRef.current.onend = () => {
+    backend.onEnd = () => {
       console.log("Speech recognition ended")
-      // Restart listening if we're still in listening mode
-      if (status === "listening" && isListening) {
-        console.log("Restarting speech recognition")
-        recognitionRef.current?.start()
-      } else {
-        setIsListening(false)
-      }
+      setIsListening(false)
     }
 
     try {
-      recognitionRef.current.start()
-      console.log("Speech recognition requested to start")
+      asrBackendRef.current = backend
+      // With automatic detection, start with English and switch once the language is known
+      await backend.start({
+        language: language === "auto" ? "en-US" : language,
+        stream: microphoneStreamRef.current,
+        audioContext: audioContextRef.current,
+      })
+      console.log(`Speech recognition (${backend.name}) requested to start`)
     } catch (err) {
       console.error("Error starting speech recognition:", err)
       setError(`Failed to start speech recognition: ${err.message}`)
@@ -1890,8 +1474,8 @@ export default function ExcelVoiceAnalyzer() {
 
   // Stop listening
   const stopListening = () => {
-    if (recognitionRef.current) {
-      recognitionRef.current.stop()
+    if (asrBackendRef.current) {
+      asrBackendRef.current.stop()
     }
 
     if (microphoneStreamRef.current) {
@@ -1911,8 +1495,32 @@ export default function ExcelVoiceAnalyzer() {
       // Use the current detected language or fallback to the selected language
       const queryLanguage = detectedLanguage || (language === "auto" ? "en-US" : language)
 
-      // Process query with local AI
-      const result = await processQueryWithLocalAI(query, excelData, queryLanguage, nlpModel)
+      // Process query with local AI, continuing from the previous plan
+      const result = await processQueryWithLocalAI(
+        query,
+        excelData,
+        queryLanguage,
+        nlpModel,
+        previousPlanRef.current,
+        analysisScopeRef.current,
+        columnAliasesRef.current,
+      )
+
+      // Follow-ups build on the last understood question
+      if (result.plan && result.operation !== "unknown") {
+        previousPlanRef.current = result.plan
+      }
+
+      // Scope commands replace the sticky filter for all following queries
+      if (result.scope) {
+        analysisScopeRef.current = result.scope
+        setAnalysisScope(result.scope)
+      }
+
+      // Alias commands add a name to the workbook's aliases
+      if (result.aliases) {
+        updateColumnAliases(result.aliases)
+      }
 
       // Update state with response
       setResponse(result)
@@ -1940,34 +1548,157 @@ export default function ExcelVoiceAnalyzer() {
   }
 
   // Speak the response
-  const speakResponse = (text: string) => {
-    if (!synthRef.current) return
+  const speakResponse = async (text: string) => {
+    const settings = speechSettingsRef.current
+    const backend = ttsBackendsRef.current[settings.synthesisEngine]
+    if (!backend) return
 
     setStatus("speaking")
 
     // Cancel any ongoing speech
-    synthRef.current.cancel()
+    finishSpeaking()
+    ttsBackendRef.current?.cancel()
+    ttsBackendRef.current = backend
+    isSpeakingRef.current = true
+
+    // Let the user interrupt the answer by starting to talk; in the other modes, chatter in the room
+    // mustn't do that, so the talk button or the wake word interrupts instead. The watch starts with the
+    // audio, so that it calibrates on the answer's echo rather than the silence while a voice loads.
+    const startBargeInWatch = () => {
+      if (!isSpeakingRef.current || ttsBackendRef.current !== backend) return
+      if (settings.listeningMode !== "always-on" || !analyserRef.current) return
+      if (!microphoneStreamRef.current?.active) return
+      stopBargeInWatchRef.current?.()
+      stopBargeInWatchRef.current = watchForBargeIn(analyserRef.current, settings.sensitivity, () => {
+        console.log("User started talking, interrupting the answer")
+        setTranscript("")
+        stopSpeaking()
+      })
+    }
+
+    try {
+      // Set language based on detected or selected language, and apply speech settings
+      const speechLanguage = (detectedLanguage || language) === "de-DE" ? "de-DE" : "en-US"
+      const completed = await backend.speak(text, {
+        language: speechLanguage,
+        rate: settings.rate,
+        pitch: settings.pitch,
+        volume: settings.volume,
+        voice: settings.voices[backend.name]?.[speechLanguage],
+        onStart: startBargeInWatch,
+      })
+
+      // A cancelled response was replaced by a newer one or interrupted, which sets the status itself
+      if (completed) {
+        finishSpeaking()
+        setStatus("listening")
+      }
+    } catch (err) {
+      finishSpeaking()
+      console.error("Speech synthesis error:", err)
+      setError("Error speaking response")
+      setStatus("error")
+    }
+  }
 
-    const utterance = new SpeechSynthesisUtterance(text)
+  // Stop watching for barge-in once an answer is over
+  const finishSpeaking = () => {
+    stopBargeInWatchRef.current?.()
+    stopBargeInWatchRef.current = null
+    isSpeakingRef.current = false
+  }
 
-    // Set language based on detected or selected language
-    utterance.lang = detectedLanguage || (language === "auto" ? "en-US" : language) || "en-US"
+  // Interrupt the spoken answer and listen for the next query
+  const stopSpeaking = () => {
+    finishSpeaking()
+    ttsBackendRef.current?.cancel()
+    setStatus("listening")
+  }
 
-    // Apply speech settings
-    utterance.rate = speechSettings.rate
-    utterance.pitch = speechSettings.pitch
-    utterance.volume = speechSettings.volume
+  // Open the window in which speech counts as a query: while push-to-talk is held, or after the wake word
+  const openQueryWindow = (duration: number) => {
+    if (queryWindowTimerRef.current) clearTimeout(queryWindowTimerRef.current)
+    queryWindowTimerRef.current = Number.isFinite(duration) ? setTimeout(closeQueryWindow, duration) : null
+    queryWindowUntilRef.current = performance.now() + duration
+    setQueryWindowOpen(true)
+  }
 
-    utterance.onend = () => {
-      setStatus("listening")
-    }
+  const closeQueryWindow = () => {
+    if (queryWindowTimerRef.current) clearTimeout(queryWindowTimerRef.current)
+    queryWindowTimerRef.current = null
+    queryWindowUntilRef.current = 0
+    setQueryWindowOpen(false)
+  }
 
-    utterance.onerror = () => {
-      setError("Error speaking response")
-      setStatus("error")
+  // Decide whether a recognized utterance is a query in the current listening mode.
+  // Returns the query, or null for conversation in the room.
+  const admitQuery = (transcript: string): string | null => {
+    const mode = listeningModeRef.current
+    if (mode === "always-on") return transcript
+
+    if (mode === "wake-word") {
+      const afterWakeWord = findWakeWord(transcript)
+      // "Hey Excel" alone waits for the query, "Hey Excel, what's the total?" is the query
+      if (afterWakeWord === "") {
+        openQueryWindow(wakeWordWindowMs)
+        return null
+      }
+      if (afterWakeWord !== null) {
+        closeQueryWindow()
+        return afterWakeWord
+      }
     }
 
-    synthRef.current.speak(utterance)
+    if (performance.now() > queryWindowUntilRef.current) return null
+
+    // One query per wake word or release of the talk button
+    if (Number.isFinite(queryWindowUntilRef.current)) closeQueryWindow()
+    return transcript
+  }
+
+  // Push-to-talk: pressing interrupts the answer and opens the query window until released
+  const startTalking = () => {
+    if (isSpeakingRef.current) stopSpeaking()
+    if (!isListening) startListening()
+    setTranscript("")
+    openQueryWindow(Number.POSITIVE_INFINITY)
+  }
+
+  const stopTalking = () => {
+    if (queryWindowUntilRef.current === Number.POSITIVE_INFINITY) openQueryWindow(pushToTalkGraceMs)
+  }
+
+  // Choose the voice for a language on the selected speech output engine
+  const selectVoice = (voiceLanguage: "en-US" | "de-DE", voice: string) => {
+    const engine = speechSettings.synthesisEngine
+    updateSpeechSettings({
+      voices: {
+        ...speechSettings.voices,
+        [engine]: { ...speechSettings.voices[engine], [voiceLanguage]: voice === "default" ? undefined : voice },
+      },
+    })
+  }
+
+  // Speak a sample sentence with the chosen voice of a language
+  const previewVoice = async (voiceLanguage: "en-US" | "de-DE") => {
+    const backend = ttsBackendsRef.current[speechSettings.synthesisEngine]
+    if (!backend) return
+
+    ttsBackendRef.current?.cancel()
+    ttsBackendRef.current = backend
+
+    try {
+      await backend.speak(voicePreviewTexts[voiceLanguage], {
+        language: voiceLanguage,
+        rate: speechSettings.rate,
+        pitch: speechSettings.pitch,
+        volume: speechSettings.volume,
+        voice: speechSettings.voices[backend.name]?.[voiceLanguage],
+      })
+    } catch (err) {
+      console.error("Voice preview error:", err)
+      setError("Error previewing the voice")
+    }
   }
 
   // Handle follow-up question
@@ -1978,12 +1709,14 @@ export default function ExcelVoiceAnalyzer() {
 
   // Reset the application
   const handleReset = () => {
-    if (recognitionRef.current) {
-      recognitionRef.current.stop()
+    if (asrBackendRef.current) {
+      asrBackendRef.current.stop()
     }
 
-    if (synthRef.current) {
-      synthRef.current.cancel()
+    finishSpeaking()
+    closeQueryWindow()
+    if (ttsBackendRef.current) {
+      ttsBackendRef.current.cancel()
     }
 
     if (microphoneStreamRef.current) {
@@ -2000,6 +1733,33 @@ export default function ExcelVoiceAnalyzer() {
     setDetectedLanguage(null)
     setIsListening(false)
     setQueryHistory([])
+    previousPlanRef.current = null
+    analysisScopeRef.current = []
+    setAnalysisScope([])
+    workbookFingerprintRef.current = null
+    columnAliasesRef.current = {}
+    setColumnAliases({})
+  }
+
+  // Update the column aliases and store them for the current workbook
+  const updateColumnAliases = (aliases: ColumnAliases) => {
+    columnAliasesRef.current = aliases
+    setColumnAliases(aliases)
+    if (workbookFingerprintRef.current) {
+      saveColumnAliases(workbookFingerprintRef.current, aliases)
+    }
+  }
+
+  // Replace the aliases of one column with a comma-separated list from the editor
+  const handleAliasInput = (column: string, text: string) => {
+    const aliases = text
+      .split(",")
+      .map((alias) => alias.trim())
+      .filter((alias, index, list) => alias.length > 0 && list.indexOf(alias) === index)
+    const updatedAliases = { ...columnAliasesRef.current }
+    if (aliases.length > 0) updatedAliases[column] = aliases
+    else delete updatedAliases[column]
+    updateColumnAliases(updatedAliases)
   }
 
   // Update speech settings
@@ -2019,6 +1779,11 @@ export default function ExcelVoiceAnalyzer() {
         setupAudioProcessing()
       }
     }
+
+    // A different recognition engine (wake-word mode uses the local one) takes effect the next time listening starts
+    if (("recognitionEngine" in newSettings || "listeningMode" in newSettings) && isListening) {
+      stopListening()
+    }
   }
 
   // Get status message
@@ -2035,6 +1800,14 @@ export default function ExcelVoiceAnalyzer() {
       case "loading-model":
         return "Loading AI model..."
       case "listening":
+        if (speechSettings.listeningMode === "push-to-talk" && !queryWindowOpen) {
+          return lang === "de-DE"
+            ? "Halten Sie die Leertaste oder die Sprechtaste gedrückt"
+            : "Hold the space bar or the talk button to speak"
+        }
+        if (speechSettings.listeningMode === "wake-word" && !queryWindowOpen) {
+          return lang === "de-DE" ? "Sagen Sie „Hallo Excel“..." : 'Say "Hey Excel"...'
+        }
         return lang === "de-DE" ? "Höre zu..." : "Listening..."
       case "processing":
         return lang === "de-DE" ? "Verarbeite Anfrage..." : "Processing query..."
@@ -2236,7 +2009,98 @@ export default function ExcelVoiceAnalyzer() {
                       <SelectItem value="en-US">English</SelectItem>
                       <SelectItem value="de-DE">German</SelectItem>
                     </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-1">
+                  <div className="flex justify-between items-center">
+                    <Label htmlFor="recognition-engine">Speech Recognition Engine</Label>
+                    <Select
+                      value={speechSettings.recognitionEngine}
+                      onValueChange={(value) => updateSpeechSettings({ recognitionEngine: value as AsrBackendName })}
+                    >
+                      <SelectTrigger id="recognition-engine" className="w-[180px]">
+                        <SelectValue placeholder="Select Engine" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="web-speech" disabled={!asrBackendsRef.current["web-speech"]}>
+                          Browser
+                        </SelectItem>
+                        <SelectItem value="local">Local (offline)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {speechSettings.recognitionEngine === "local"
+                      ? "Your voice is recognized on this device. No audio or query leaves your machine."
+                      : "Your browser may send the audio to its speech service for recognition."}
+                  </p>
+                </div>
+
+                <div className="space-y-1">
+                  <div className="flex justify-between items-center">
+                    <Label htmlFor="listening-mode">Listening Mode</Label>
+                    <Select
+                      value={speechSettings.listeningMode}
+                      onValueChange={(value) => updateSpeechSettings({ listeningMode: value as ListeningMode })}
+                    >
+                      <SelectTrigger id="listening-mode" className="w-[180px]">
+                        <SelectValue placeholder="Select Mode" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(listeningModeLabels) as ListeningMode[]).map((mode) => (
+                          <SelectItem
+                            key={mode}
+                            value={mode}
+                            disabled={mode === "wake-word" && localAsrLanguages?.length === 0}
+                          >
+                            {listeningModeLabels[mode]["en-US"]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {speechSettings.listeningMode === "push-to-talk"
+                      ? "Hold the space bar or the talk button while you ask."
+                      : speechSettings.listeningMode === "wake-word"
+                        ? 'Start each query with "Hey Excel" or "Hallo Excel". The wake word is recognized on this device with the local engine.'
+                        : "Everything the microphone hears is treated as a query."}
+                  </p>
+                  {localAsrLanguages?.length === 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      The wake word needs the offline speech models, which aren't installed. See public/models/README.md
+                      to set them up.
+                    </p>
+                  )}
+                </div>
+
+                <div className="space-y-1">
+                  <div className="flex justify-between items-center">
+                    <Label htmlFor="synthesis-engine">Voice Output Engine</Label>
+                    <Select
+                      value={speechSettings.synthesisEngine}
+                      onValueChange={(value) => updateSpeechSettings({ synthesisEngine: value as TtsBackendName })}
+                    >
+                      <SelectTrigger id="synthesis-engine" className="w-[180px]">
+                        <SelectValue placeholder="Select Engine" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="browser" disabled={!ttsBackendsRef.current.browser}>
+                          Browser
+                        </SelectItem>
+                        <SelectItem value="local" disabled={!ttsBackendsRef.current.local}>
+                          Local neural voice
+                        </SelectItem>
+                      </SelectContent>
+                    </Select>
                   </div>
+                  <p className="text-xs text-muted-foreground">
+                    {speechSettings.synthesisEngine === "local"
+                      ? "Answers are spoken by a neural voice on this device. The voice is downloaded once."
+                      : "Answers are spoken with the voices your browser and operating system provide."}
+                  </p>
+                </div>
 
                 <Separator />
 
@@ -2339,6 +2203,42 @@ export default function ExcelVoiceAnalyzer() {
                         onValueChange={([value]) => updateSpeechSettings({ volume: value })}
                       />
                     </div>
+
+                    {(["en-US", "de-DE"] as const).map((voiceLanguage) => (
+                      <div key={voiceLanguage} className="flex items-center justify-between gap-2">
+                        <Label htmlFor={`voice-${voiceLanguage}`}>
+                          {voiceLanguage === "de-DE" ? "German Voice" : "English Voice"}
+                        </Label>
+                        <div className="flex items-center gap-2">
+                          <Select
+                            value={speechSettings.voices[speechSettings.synthesisEngine]?.[voiceLanguage] || "default"}
+                            onValueChange={(value) => selectVoice(voiceLanguage, value)}
+                          >
+                            <SelectTrigger id={`voice-${voiceLanguage}`} className="w-[180px]">
+                              <SelectValue placeholder="Select Voice" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="default">Default</SelectItem>
+                              {availableVoices
+                                .filter((voice) => voice.language === voiceLanguage)
+                                .map((voice) => (
+                                  <SelectItem key={voice.id} value={voice.id}>
+                                    {voice.name}
+                                  </SelectItem>
+                                ))}
+                            </SelectContent>
+                          </Select>
+                          <Button
+                            variant="outline"
+                            size="icon"
+                            onClick={() => previewVoice(voiceLanguage)}
+                            title="Preview voice"
+                          >
+                            <Volume2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </div>
+                    ))}
                   </div>
                 )}
               </div>
@@ -2407,6 +2307,22 @@ export default function ExcelVoiceAnalyzer() {
 
           {detectedLanguage && <Badge variant="secondary">{detectedLanguage === "de-DE" ? "German" : "English"}</Badge>}
 
+          <Badge variant={queryWindowOpen ? "default" : "outline"} className="flex items-center gap-1">
+            <Mic className="h-3 w-3" />
+            {listeningModeLabels[speechSettings.listeningMode][detectedLanguage === "de-DE" ? "de-DE" : "en-US"]}
+          </Badge>
+
+          {analysisScope.length > 0 && (
+            <Badge variant="secondary" className="flex items-center gap-1">
+              <Filter className="h-3 w-3" />
+              {analysisScope
+                .map((condition) =>
+                  describeFilterCondition(condition, detectedLanguage || (language === "auto" ? "en-US" : language)),
+                )
+                .join(detectedLanguage === "de-DE" || language === "de-DE" ? " und " : " and ")}
+            </Badge>
+          )}
+
           <Button
             variant={isListening ? "destructive" : "default"}
             size="sm"
@@ -2442,6 +2358,46 @@ export default function ExcelVoiceAnalyzer() {
                   : 0}
               </p>
             </div>
+
+            {/* Column Aliases */}
+            <div className="mt-3">
+              <Button variant="outline" size="sm" onClick={() => setShowAliasEditor(!showAliasEditor)}>
+                <Tag className="h-4 w-4 mr-2" />
+                {detectedLanguage === "de-DE" ? "Spaltennamen" : "Column aliases"}
+                {Object.keys(columnAliases).length > 0 && (
+                  <Badge variant="secondary" className="ml-2">
+                    {Object.values(columnAliases).flat().length}
+                  </Badge>
+                )}
+              </Button>
+              {showAliasEditor && (
+                <div className="mt-3 space-y-2">
+                  <p className="text-xs text-muted-foreground">
+                    {detectedLanguage === "de-DE"
+                      ? 'Weitere Namen je Spalte, durch Kommas getrennt. Per Sprache: „Nenne Spalte Net_Rev_EUR Umsatz“.'
+                      : 'Other names per column, separated by commas. By voice: "Call column Net_Rev_EUR revenue".'}
+                  </p>
+                  {(excelData.sheets[excelData.activeSheet]?.[0]
+                    ? Object.keys(excelData.sheets[excelData.activeSheet][0])
+                    : []
+                  ).map((column) => (
+                    <div key={column} className="grid grid-cols-3 items-center gap-2">
+                      <Label htmlFor={`alias-${column}`} className="text-sm truncate">
+                        {column}
+                      </Label>
+                      <Input
+                        id={`alias-${column}`}
+                        key={(columnAliases[column] || []).join(", ")}
+                        className="col-span-2 h-8"
+                        defaultValue={(columnAliases[column] || []).join(", ")}
+                        placeholder={detectedLanguage === "de-DE" ? "z.B. Umsatz, Erlös" : "e.g. revenue, sales"}
+                        onBlur={(e) => handleAliasInput(column, e.target.value)}
+                      />
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
           </CardContent>
         </Card>
       )}
@@ -2506,6 +2462,21 @@ export default function ExcelVoiceAnalyzer() {
               </Button>
             </form>
 
+            {/* Push-to-talk Button */}
+            {speechSettings.listeningMode === "push-to-talk" && (
+              <Button
+                ref={pushToTalkButtonRef}
+                variant={queryWindowOpen ? "default" : "outline"}
+                className="w-full select-none"
+                onPointerDown={startTalking}
+                onPointerUp={stopTalking}
+                onPointerLeave={stopTalking}
+              >
+                <Mic className="h-4 w-4 mr-2" />
+                {detectedLanguage === "de-DE" ? "Zum Sprechen gedrückt halten" : "Hold to talk"}
+              </Button>
+            )}
+
             {/* Microphone Test Button */}
             {!isListening && status !== "processing" && (
               <div className="flex justify-center">
@@ -2573,6 +2544,16 @@ export default function ExcelVoiceAnalyzer() {
                     </div>
                   )}
 
+                  {/* Interpreted Plan */}
+                  {response.plan && (
+                    <div className="text-xs text-muted-foreground">
+                      <span className="font-medium">
+                        {detectedLanguage === "de-DE" ? "Interpretiert als: " : "Interpreted as: "}
+                      </span>
+                      <code>{describeQueryPlan(response.plan, detectedLanguage === "de-DE" ? "de-DE" : "en-US")}</code>
+                    </div>
+                  )}
+
                   {/* Response */}
                   <div className="bg-primary/10 p-4 rounded-md">
                     <p className="text-sm font-medium mb-2">
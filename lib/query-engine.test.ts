@@ -0,0 +1,628 @@
+import { describe, expect, it } from "vitest"
+import {
+  executeQueryPlan,
+  getColumnDecimalSeparators,
+  parseQueryPlan,
+  processQueryWithLocalAI,
+  recognizeIntent,
+} from "./query-engine"
+import type { ExcelData, Language, NLPModel, QueryPlan } from "./query-engine"
+
+const sales: ExcelData = {
+  sheets: {
+    Sales: [
+      { Date: "2024-01-15", City: "Berlin", Status: "Open", Price: "120", Quantity: "3", Amount: "360", Total: "400" },
+      { Date: "2024-02-20", City: "Munich", Status: "Closed", Price: "80", Quantity: "5", Amount: "400", Total: "420" },
+      { Date: "2024-04-10", City: "Berlin", Status: "Open", Price: "250", Quantity: "1", Amount: "250", Total: "260" },
+      {
+        Date: "2024-05-05",
+        City: "Hamburg",
+        Status: "Closed",
+        Price: "95",
+        Quantity: "2",
+        Amount: "190",
+        Total: "200",
+      },
+      { Date: "2024-07-22", City: "Munich", Status: "Open", Price: "60", Quantity: "7", Amount: "420", Total: "430" },
+    ],
+  },
+  activeSheet: "Sales",
+}
+
+const nlpModel: NLPModel = { model: {}, encoder: {}, tokenizer: {}, loaded: true }
+
+const ask = (query: string, previousPlan: QueryPlan | null = null, language: Language = "en-US", data = sales) =>
+  processQueryWithLocalAI(query, data, language, nlpModel, previousPlan)
+
+describe("parseQueryPlan", () => {
+  it("reads the operation, target and conditions", () => {
+    const plan = parseQueryPlan("average Price where City is Berlin", sales)
+    expect(plan.operation).toBe("average")
+    expect(plan.targets).toEqual(["Price"])
+    expect(plan.filters).toEqual([{ column: "City", operator: "equals", value: "Berlin", negated: false }])
+  })
+
+  it("reads the group-by column", () => {
+    const plan = parseQueryPlan("sum of Amount per City", sales)
+    expect(plan.operation).toBe("sum")
+    expect(plan.groupBy).toBe("City")
+  })
+
+  it("reads the settings of an operation into the plan", () => {
+    expect(parseQueryPlan("90th percentile of Price", sales).percentile).toBe(90)
+    expect(parseQueryPlan("trend of Amount per quarter", sales).granularity).toBe("quarter")
+
+    const comparison = parseQueryPlan("compare Amount for Berlin and Munich", sales)
+    expect(comparison.segments).toEqual([
+      { column: "City", value: "Berlin" },
+      { column: "City", value: "Munich" },
+    ])
+    expect(comparison.filters).toEqual([])
+  })
+
+  it("keeps the settings of the previous question in follow-ups", () => {
+    const percentile = parseQueryPlan("and for Berlin?", sales, parseQueryPlan("90th percentile of Price", sales))
+    expect(percentile.operation).toBe("percentile")
+    expect(percentile.percentile).toBe(90)
+
+    const comparison = parseQueryPlan(
+      "and the average?",
+      sales,
+      parseQueryPlan("compare Amount for Berlin and Munich", sales),
+    )
+    expect(comparison.operation).toBe("compare")
+    expect(comparison.aggregation).toBe("average")
+    expect(comparison.segments.map((segment) => segment.value)).toEqual(["Berlin", "Munich"])
+  })
+
+  it("keeps the previous operation when a follow-up names a column that contains a keyword", async () => {
+    const previous = parseQueryPlan("what is the average of Price", sales)
+    for (const followUp of ["what about Quantity", "and Quantity?"]) {
+      const result = await ask(followUp, previous)
+      expect(result.operation).toBe("average")
+      expect(result.answer).toBe("The average of Quantity is 3.60.")
+    }
+  })
+
+  it.each([
+    ["what about Munich?", "en-US", "The average of Price is 70.00."],
+    ["und Munich?", "de-DE", "Der Durchschnitt von Price ist 70,00."],
+  ] as [string, Language, string][])(
+    "replaces the inherited condition with a value named without a marker in %s",
+    async (followUp, language, answer) => {
+      const filtered = parseQueryPlan("and for Berlin?", sales, parseQueryPlan("what is the average of Price", sales))
+      const result = await ask(followUp, filtered, language)
+      expect(result.plan?.filters).toEqual([{ column: "City", operator: "equals", value: "Munich", negated: false }])
+      expect(result.answer).toContain(answer)
+    },
+  )
+})
+
+describe("executeQueryPlan", () => {
+  it("runs a plan without re-reading the query", () => {
+    const plan = parseQueryPlan("sum of Amount", sales)
+    expect(
+      executeQueryPlan(
+        { ...plan, filters: [{ column: "City", operator: "equals", value: "Berlin", negated: false }] },
+        sales,
+        "en-US",
+      ).answer,
+    ).toContain("610")
+  })
+
+  it("applies the conditions of a follow-up to every operation", async () => {
+    const percentile = await ask("and for Berlin?", parseQueryPlan("90th percentile of Price", sales))
+    expect(percentile.answer).toContain("The 90th percentile of Price is 237.00")
+
+    const comparison = await ask("and the average?", parseQueryPlan("compare Amount for Berlin and Munich", sales))
+    expect(comparison.answer).toContain("Berlin 305.00 vs. Munich 410.00")
+
+    const trend = await ask("and for Berlin?", parseQueryPlan("trend of Amount per quarter", sales))
+    expect(trend.answer).toContain("from 360.00 (2024-Q1) to 250.00 (2024-Q2)")
+  })
+
+  it("lists unique values of the matching rows only", async () => {
+    const result = await ask("unique values of City where Status is Open")
+    expect(result.answer).toContain("Berlin")
+    expect(result.answer).not.toContain("Hamburg")
+  })
+})
+
+describe("processQueryWithLocalAI", () => {
+  it("filters rows with comparison operators", async () => {
+    const result = await ask("show only rows where Price is greater than 100")
+    expect(result.operation).toBe("filter")
+    expect(result.data).toHaveLength(2)
+  })
+
+  it("speaks the numbers of a filter in the user's locale", async () => {
+    expect((await ask("show only rows where Price is greater than 100")).answer).toContain(
+      "That is 40% of all 5 rows. In these rows, Price ranges from 120.00 to 250.00.",
+    )
+    expect((await ask("filter Zeilen wo Price über 90", null, "de-DE")).answer).toMatch(/Das sind 60\s% aller 5 Zeilen/)
+    expect((await ask("Durchschnitt von Amount", null, "de-DE")).answer).toContain("ist 324,00")
+  })
+
+  it("filters by a value the column doesn't contain", async () => {
+    const excluded = await ask("exclude Status cancelled")
+    expect(excluded.plan?.filters).toEqual([
+      { column: "Status", operator: "equals", value: "cancelled", negated: true },
+    ])
+    expect(excluded.answer).toBe("All 5 rows remain, because every row matches: Status is not cancelled.")
+
+    expect((await ask("show only rows where Status is cancelled")).answer).toBe(
+      "No rows match the condition: Status is cancelled.",
+    )
+  })
+})
+
+describe("rankings", () => {
+  it.each([
+    ["show only rows where Price is at most 100", 3],
+    ["show only rows where Price is at least 100", 2],
+  ])("treats %s as a filter, not a ranking", async (query, rows) => {
+    const result = await ask(query)
+    expect(result.operation).toBe("filter")
+    expect(result.data).toHaveLength(rows)
+  })
+
+  it.each(["filter Zeilen wo Price höchstens 100", "filter Zeilen wo Price mindestens 100"])(
+    "treats %s as a filter, not a ranking",
+    async (query) => {
+      expect((await ask(query, null, "de-DE")).operation).toBe("filter")
+    },
+  )
+
+  it("still ranks superlatives with most and least", () => {
+    expect(parseQueryPlan("the 3 most expensive Price", sales)).toMatchObject({
+      operation: "rank",
+      limit: 3,
+      sort: { column: "Price", direction: "desc" },
+    })
+    expect(parseQueryPlan("the two least Quantity", sales)).toMatchObject({
+      operation: "rank",
+      limit: 2,
+      sort: { column: "Quantity", direction: "asc" },
+    })
+  })
+
+  it("ranks by the column after by instead of grouping by it", async () => {
+    const ranking = parseQueryPlan("top 3 City by Amount", sales)
+    expect(ranking).toMatchObject({ groupBy: null, sort: { column: "Amount", direction: "desc" } })
+
+    const followUp = await ask("and the average of Price?", ranking)
+    expect(followUp.plan?.groupBy).toBeNull()
+    expect(followUp.answer).toContain("The average of Price is 121.00")
+  })
+
+  it.each([
+    ["what is the second highest Price", "en-US", "(120.00)"],
+    ["what is the 2nd lowest Amount", "en-US", "(250.00)"],
+    ["was ist der zweithöchste Price", "de-DE", "(120,00)"],
+    ["die dritte größte Amount", "de-DE", "(360,00)"],
+  ] as [string, Language, string][])("answers %s with a single position", async (query, language, value) => {
+    const result = await ask(query, null, language)
+    expect(result.operation).toBe("rank")
+    expect(result.data).toHaveLength(1)
+    expect(result.answer).toContain(value)
+  })
+
+  it("names ranked rows by a text column instead of a date", async () => {
+    expect((await ask("top 3 Price")).answer).toBe(
+      "The top 3 values of Price: 1. Berlin (250.00), 2. Berlin (120.00), 3. Hamburg (95.00).",
+    )
+  })
+})
+
+describe("shares", () => {
+  it("divides the matching part by the total", async () => {
+    const result = await ask("share of Amount where City is Berlin")
+    expect(result.operation).toBe("share")
+    expect(result.answer).toContain("37.7% of the total Amount")
+    expect((await ask("percentage of rows where Status is Open")).answer).toContain("60% of all entries")
+  })
+
+  it("divides each group by the total", async () => {
+    expect((await ask("share of Amount per City")).answer).toContain("Munich 50.6%, Berlin 37.7%, Hamburg 11.7%")
+  })
+
+  it("divides each group by the total of the matching rows", async () => {
+    const result = await ask("share of Amount per City where Status is Open")
+    expect(result.operation).toBe("share")
+    expect(result.answer).toContain("Berlin 59.2%, Munich 40.8%")
+    expect((await ask("Anteil von Amount pro City wo Status ist Open", null, "de-DE")).answer).toMatch(
+      /Berlin 59,2\s%, Munich 40,8\s%/,
+    )
+  })
+})
+
+describe("trends", () => {
+  it("keeps months without rows in the table but out of the trend line", async () => {
+    const result = await ask("trend of Amount")
+    expect(result.operation).toBe("trend")
+    expect(result.answer).toContain("about -4.65 per month")
+    expect(result.data).toHaveLength(7)
+    expect(result.data?.[2]).toEqual({ Period: "2024-03", Amount: 0, Change: null })
+  })
+
+  it("doesn't let months without rows turn a rising sum into a falling one", async () => {
+    const result = await ask("trend of Amount per month", null, "en-US", {
+      sheets: {
+        Sales: [
+          { Date: "2024-01-10", Amount: "100" },
+          { Date: "2024-02-10", Amount: "110" },
+          { Date: "2024-06-10", Amount: "120" },
+        ],
+      },
+      activeSheet: "Sales",
+    })
+    expect(result.answer).toContain("Amount is rising over time: from 100.00 (2024-01) to 120.00 (2024-06), about +3.57")
+  })
+
+  it("says the direction comes from the trend line when the first and last months disagree", async () => {
+    expect((await ask("trend of Amount")).answer).toContain(
+      "Amount is falling over time according to the trend line, about -4.65 per month, although it went from 360.00 (2024-01) to 420.00 (2024-07).",
+    )
+  })
+
+  it("takes the biggest change between months with rows", async () => {
+    expect((await ask("trend of Amount")).answer).toContain(
+      "The biggest change was from 2024-05 to 2024-07 (+230.00, +121.1%).",
+    )
+  })
+
+  it("leaves months without rows out of averages", async () => {
+    const result = await ask("average trend of Amount")
+    expect(result.answer).toContain("about -4.65 per month")
+  })
+
+  it("scopes a trend to the matching rows", async () => {
+    const result = await ask("trend of Amount where City is Berlin per quarter")
+    expect(result.operation).toBe("trend")
+    expect(result.answer).toContain("from 360.00 (2024-Q1) to 250.00 (2024-Q2)")
+  })
+})
+
+describe("distributions", () => {
+  it("bins a numeric column with few distinct values", async () => {
+    const result = await ask("distribution of Price")
+    expect(result.answer).toBe(
+      "Price is right-skewed (a long tail of high values), with a skewness of 1.20. Most values (60%) fall between 60.00 and 98.00.",
+    )
+    expect(result.explanation).toContain("using the Freedman–Diaconis rule")
+  })
+
+  it("reports the skew of a numeric column with too few values to bin", async () => {
+    const result = await ask("distribution of Price", null, "en-US", {
+      sheets: { Sales: sales.sheets.Sales.slice(0, 3) },
+      activeSheet: "Sales",
+    })
+    expect(result.answer).toBe(
+      "Price has 3 different values. The most common is 120 with 33.3%, and the top three values account for 100%. Price is right-skewed (a long tail of high values), with a skewness of 0.55.",
+    )
+  })
+})
+
+describe("correlations", () => {
+  it("correlates the rows where both columns hold a number", async () => {
+    const gaps: ExcelData = {
+      sheets: {
+        S: [
+          { X: "1", Y: "2" },
+          { X: "n/a", Y: "100" },
+          { X: "2", Y: "4" },
+          { X: "3", Y: "" },
+          { X: "3", Y: "6" },
+          { X: "4", Y: "8" },
+          { X: "5", Y: "10" },
+        ],
+      },
+      activeSheet: "S",
+    }
+    const result = await ask("correlation between X and Y", null, "en-US", gaps)
+    expect(result.operation).toBe("correlation")
+    expect(result.answer).toContain("The correlation between X and Y is 1.00")
+    expect(result.explanation).toContain("over the 5 rows where both columns contain a number")
+  })
+
+  it("ranks the columns that correlate with a column", async () => {
+    const result = await ask("which columns correlate with Price")
+    expect(result.plan?.correlationMatrix).toBe(true)
+    expect(result.answer).toContain(
+      "The columns most strongly correlated with Price are: Quantity (-0.77, strong negative)",
+    )
+  })
+
+  it("returns the correlation matrix of all numeric columns", async () => {
+    const result = await ask("correlation matrix")
+    expect(result.explanation).toContain("for 6 pairs of numeric columns")
+    expect(result.answer).toContain("between Amount and Total")
+  })
+})
+
+describe("multiple operations", () => {
+  it("answers several operations in one sentence", async () => {
+    const result = await ask("sum and average of Amount")
+    expect(result.operation).toBe("multi")
+    expect(result.plan?.operations).toEqual(["sum", "average"])
+    expect(result.answer).toBe("For Amount, the sum is 1620.00 and the average is 324.00.")
+  })
+
+  it("speaks the numbers like single operations do", async () => {
+    expect((await ask("sum of Amount")).answer).toContain("1620.00")
+    expect((await ask("Summe und Durchschnitt von Amount", null, "de-DE")).answer).toContain("die Summe 1620,00")
+  })
+
+  it("answers them for several columns, one row each", async () => {
+    const result = await ask("min and max of Price and Quantity")
+    expect(result.answer).toContain("for Quantity, the minimum is 1.00 and the maximum is 7.00")
+    expect(result.data).toHaveLength(2)
+  })
+
+  it("answers one operation for every named column", async () => {
+    const result = await ask("average of Price and Quantity")
+    expect(result.answer).toContain("For Price, the average is 121.00")
+    expect(result.answer).toContain("for Quantity, the average is 3.60")
+    expect(result.data).toHaveLength(2)
+  })
+})
+
+describe("negation", () => {
+  it.each([
+    ["average Price excluding Munich", "en-US"],
+    ["Durchschnitt von Price ohne Munich", "de-DE"],
+  ] as [string, Language][])("leaves out the rows %s names", async (query, language) => {
+    const result = await ask(query, null, language)
+    expect(result.plan?.filters).toEqual([{ column: "City", operator: "equals", value: "Munich", negated: true }])
+    expect(result.answer).toMatch(/155[.,]00/)
+  })
+
+  it("lists the excluded rows in the explanation", async () => {
+    const result = await ask("count of rows where City is not Berlin")
+    expect(result.answer).toContain("3 entries")
+    expect(result.explanation).toContain("Excluded were the rows where City is Berlin")
+  })
+})
+
+describe("column aliases", () => {
+  it("learns another name for a column", async () => {
+    const result = await ask("call column Amount revenue")
+    expect(result.operation).toBe("alias")
+    expect(result.aliases).toEqual({ Amount: ["revenue"] })
+  })
+
+  it("reads the other name as the column", async () => {
+    const aliases = { Amount: ["revenue", "Umsatz"] }
+    expect(parseQueryPlan("sum of revenue", sales, null, aliases).targets).toEqual(["Amount"])
+    const result = await processQueryWithLocalAI("Summe von Umsatz", sales, "de-DE", nlpModel, null, [], aliases)
+    expect(result.answer).toContain("1620")
+  })
+})
+
+describe("spoken numbers", () => {
+  it.each(["show the first row", "sales per second"])("doesn't search for the ordinal in %s", async (query) => {
+    const result = await ask(query)
+    expect(result.answer).not.toMatch(/\b[12]\b/)
+  })
+
+  it("reads second after per as a unit of time", async () => {
+    expect((await ask("sales per second")).plan?.text).toBe("sales per second")
+  })
+
+  it("keeps null before a German noun", async () => {
+    expect((await ask("wie viele null Werte gibt es in Price", null, "de-DE")).plan?.text).toContain("null Werte")
+    expect((await ask("ist null Komma fünf in Price", null, "de-DE")).plan?.text).toContain("0.5")
+  })
+
+  it("applies a magnitude after spoken decimals", async () => {
+    expect((await ask("rows where Amount is over one point five million")).plan?.text).toBe(
+      "rows where Amount is over 1500000",
+    )
+    expect((await ask("Zeilen wo Amount über eins Komma fünf Millionen", null, "de-DE")).plan?.text).toBe(
+      "Zeilen wo Amount über 1500000",
+    )
+  })
+})
+
+describe("recognizeIntent", () => {
+  it("keeps explicit filter requests that name a column like an aggregation", async () => {
+    const result = await ask("show only rows where Total greater than 200")
+    expect(result.operation).toBe("filter")
+    expect(result.data).toHaveLength(4)
+  })
+
+  it("ignores aggregation words in column names and condition values", () => {
+    expect(recognizeIntent("find rows where status is total", ["Status", "total"])).not.toBe("sum")
+  })
+
+  it("doesn't read keywords inside column names", () => {
+    expect(parseQueryPlan("standard deviation of Quantity", sales).operation).toBe("stddev")
+    expect(parseQueryPlan("variance of Quantity", sales).operation).toBe("variance")
+  })
+
+  it("doesn't read short keywords inside other words", async () => {
+    const result = await ask("distribution of City")
+    expect(result.operation).toBe("distribution")
+    expect(result.answer).toContain("The most common is Berlin with 40%")
+    expect(parseQueryPlan("distribution of Price", sales).operation).toBe("distribution")
+  })
+
+  it("still reads keywords in German compounds", () => {
+    expect(parseQueryPlan("Gesamtsumme von Amount", sales).operation).toBe("sum")
+    expect(parseQueryPlan("Wie ist die Preisverteilung", sales).operation).toBe("distribution")
+  })
+
+  it("still reads a keyword that is also a column name when nothing else names an operation", () => {
+    expect(parseQueryPlan("what is the total Amount", sales).operation).toBe("sum")
+  })
+
+  it("still scopes aggregations with conditions", async () => {
+    const result = await ask("sum of Amount where Price greater than 100")
+    expect(result.operation).toBe("sum")
+    expect(result.answer).toContain("610")
+  })
+
+  it.each([
+    ["how many rows have Price over 100", "en-US", "There are a total of 2 entries"],
+    ["sum of Amount if Status is Open", "en-US", "The sum of Amount is 1030.00"],
+    ["average Price when City is Berlin", "en-US", "The average of Price is 185.00"],
+    ["average Amount for orders over 100 Price", "en-US", "The average of Amount is 305.00"],
+    ["Summe von Amount wenn Status ist Open", "de-DE", "Die Summe von Amount ist 1030,00"],
+    ["Durchschnitt von Price falls City Berlin ist", "de-DE", "Der Durchschnitt von Price ist 185,00"],
+  ] as [string, Language, string][])("keeps the condition in %s", async (query, language, answer) => {
+    const result = await ask(query, null, language)
+    expect(result.plan?.filters).toHaveLength(1)
+    expect(result.answer).toContain(answer)
+  })
+
+  it.each([
+    ["median of Price where City is Berlin", "median", "185.00"],
+    ["mode of City where Status is Open", "mode", "Berlin (2 times)"],
+    ["standard deviation of Price where City is Berlin", "stddev", "91.92"],
+    ["variance of Price where City is Berlin", "variance", "8450.00"],
+    ["90th percentile of Price where City is Berlin", "percentile", "237.00"],
+    ["quartiles of Price where Status is Open", "quartiles", "Q1 = 90.00"],
+    ["interquartile range of Price where Status is Open", "iqr", "95.00"],
+  ])("scopes %s to the matching rows", async (query, operation, value) => {
+    const result = await ask(query)
+    expect(result.operation).toBe(operation)
+    expect(result.answer).toContain(value)
+  })
+})
+
+describe("column resolution", () => {
+  const customers: ExcelData = {
+    sheets: {
+      Customers: [
+        { Kunde: "Meier", Status: "Open" },
+        { Kunde: "Schulz", Status: "Closed" },
+      ],
+    },
+    activeSheet: "Customers",
+  }
+
+  it("doesn't read operation words as fuzzy column names", () => {
+    expect(parseQueryPlan("count of status", customers).targets).toEqual(["Status"])
+  })
+
+  it("puts exactly named columns before guessed ones", () => {
+    expect(parseQueryPlan("average of Quantaty and Price", sales).targets).toEqual(["Price", "Quantity"])
+  })
+})
+
+describe("analysis scope", () => {
+  it("keeps a spoken year as a time range on the date column", async () => {
+    const result = await ask("from now on only look at 2024")
+    expect(result.scope).toMatchObject([{ column: "Date", operator: "withinDates", value: "2024" }])
+
+    const older: ExcelData = {
+      sheets: { Sales: [...sales.sheets.Sales, { ...sales.sheets.Sales[0], Date: "2023-11-30", Amount: "1000" }] },
+      activeSheet: "Sales",
+    }
+    const sum = await processQueryWithLocalAI("sum of Amount", older, "en-US", nlpModel, null, result.scope)
+    expect(sum.answer).toContain("1620")
+  })
+
+  it("reads a period next to other conditions", async () => {
+    const result = await ask("ab jetzt nur Berlin im März 2024", null, "de-DE")
+    expect(result.scope?.map((condition) => condition.operator)).toEqual(["equals", "withinDates"])
+  })
+})
+
+describe("number formats", () => {
+  const bookings: ExcelData = {
+    sheets: {
+      Buchungen: [
+        { Stadt: "Berlin", Betrag: "1.234,56 €" },
+        { Stadt: "Köln", Betrag: "1.500 €" },
+        { Stadt: "Berlin", Betrag: "980,00 €" },
+        { Stadt: "Hamburg", Betrag: "(1.200,00)" },
+      ],
+    },
+    activeSheet: "Buchungen",
+  }
+
+  it("reads a column in the format of the whole sheet", async () => {
+    expect((await ask("Summe von Betrag", null, "de-DE", bookings)).answer).toContain("2514,56")
+    expect((await ask("Summe von Betrag wo Stadt ist Köln", null, "de-DE", bookings)).answer).toContain("ist 1500")
+  })
+
+  it("compares filter values with the numbers of the column", async () => {
+    const result = await ask("filter Betrag über 1000", null, "de-DE", bookings)
+    expect(result.data?.map((row: any) => row.Stadt)).toEqual(["Berlin", "Köln"])
+  })
+
+  it("uses the UI language when a column doesn't tell", async () => {
+    const ambiguous: ExcelData = { sheets: { S: [{ Betrag: "1.500" }, { Betrag: "2.000" }] }, activeSheet: "S" }
+    expect((await ask("Summe von Betrag", null, "de-DE", ambiguous)).answer).toContain("3500")
+    expect((await ask("sum of Betrag", null, "en-US", ambiguous)).answer).toContain("3.5")
+  })
+
+  it("reads rows shared by two sheets in the format of the sheet asked about", async () => {
+    const rows = [{ Betrag: "1.500" }, { Betrag: "2.000" }]
+    const workbook: ExcelData = {
+      sheets: { Alle: [...rows, { Betrag: "1.234,56" }], Auswahl: rows },
+      activeSheet: "Alle",
+    }
+    expect(getColumnDecimalSeparators(workbook.sheets.Alle, "en-US")).toEqual({ Betrag: "," })
+    expect(getColumnDecimalSeparators(workbook.sheets.Auswahl, "en-US")).toEqual({ Betrag: "." })
+    expect((await ask("sum of Betrag", null, "en-US", workbook)).answer).toContain("4734.56")
+    expect((await ask("sum of Betrag", null, "en-US", { ...workbook, activeSheet: "Auswahl" })).answer).toContain("3.5")
+  })
+})
+
+describe("time ranges", () => {
+  const payments: ExcelData = {
+    sheets: {
+      Payments: [
+        { Date: "2024-01-15", City: "Berlin", Amount: "1980" },
+        { Date: "2024-03-20", City: "Munich", Amount: "2010" },
+        { Date: "2024-04-10", City: "Berlin", Amount: "2100" },
+      ],
+    },
+    activeSheet: "Payments",
+  }
+
+  it("reads years after a numeric column as numbers", () => {
+    const plan = parseQueryPlan("show rows where Amount between 1950 and 2050", payments)
+    expect(plan.dateRange).toBeNull()
+    expect(plan.filters).toMatchObject([{ column: "Amount", operator: "between", value: 1950, upperValue: 2050 }])
+  })
+
+  it("still reads years as dates when no numeric column has such values", () => {
+    expect(parseQueryPlan("sum of Amount between 2023 and 2024", payments).dateRange?.column).toBe("Date")
+  })
+
+  it("reads German days without a year", () => {
+    const plan = parseQueryPlan("Summe von Amount vom 1.3. bis 15.4.", payments)
+    expect(plan.dateRange?.start.getDate()).toBe(1)
+    expect(plan.dateRange?.start.getMonth()).toBe(2)
+    expect(plan.dateRange?.end.getDate()).toBe(15)
+    expect(plan.dateRange?.end.getMonth()).toBe(3)
+  })
+
+  it.each([
+    ["find rows in March 2024", "en-US"],
+    ["zeige Zeilen vom März 2024", "de-DE"],
+  ] as [string, Language][])("lists the rows of a time range in %s", async (query, language) => {
+    const result = await ask(query, null, language, payments)
+    expect(result.operation).toBe("filter")
+    expect(result.data).toEqual([{ Date: "2024-03-20", City: "Munich", Amount: "2010" }])
+  })
+
+  it("says when no rows fall into a time range", async () => {
+    const result = await ask("sum of Amount in June 2024", null, "en-US", payments)
+    expect(result.answer).toBe(
+      'No rows fall into the time range "in june 2024" (1 June 2024 – 30 June 2024) in the Date column.',
+    )
+    expect(result.explanation).toBe(
+      'Time range "in june 2024": 1 June 2024 – 30 June 2024 in the Date column, which covers 0 of 3 rows.',
+    )
+  })
+
+  it("still searches for a value within a time range", async () => {
+    const result = await ask("find 2100 in April 2024", null, "en-US", payments)
+    expect(result.operation).toBe("search")
+    expect(result.data).toHaveLength(1)
+  })
+})
@@ -0,0 +1,6493 @@
+// Local query engine: understands spoken questions about a workbook and answers them in the browser.
+// parseQueryPlan turns a query into a QueryPlan, executeQueryPlan runs the plan on the sheet.
+
+// Types
+export type Language = "en-US" | "de-DE" | "auto" | null
+export type ExcelData = {
+  sheets: Record<string, any[]>
+  activeSheet: string
+}
+export type QueryResult = {
+  answer: string
+  explanation: string
+  data: any[] | null
+  followUpQuestions: string[]
+  confidence: number
+  usedColumns: string[]
+  operation: string
+  plan?: QueryPlan
+  scope?: FilterCondition[]
+  aliases?: ColumnAliases
+}
+export type FilterOperator =
+  | "equals"
+  | "greaterThan"
+  | "greaterThanOrEqual"
+  | "lessThan"
+  | "lessThanOrEqual"
+  | "between"
+  | "contains"
+  | "withinDates"
+// `withinDates` keeps the dates of a spoken period: `value` is the wording, `dateRange` the days it covers
+export type FilterCondition = {
+  column: string
+  operator: FilterOperator
+  value: string | number
+  upperValue?: number
+  dateRange?: { start: Date; end: Date }
+  negated: boolean
+}
+export type AggregationOperation = "average" | "sum" | "count" | "min" | "max"
+export type DescriptiveStatistic = "median" | "mode" | "stddev" | "variance" | "quartiles" | "iqr" | "percentile"
+export type CombinedOperation = AggregationOperation | "median" | "stddev" | "variance"
+// Structured interpretation of a query: parseQueryPlan produces it, executeQueryPlan runs it.
+// Settings of single operations (the percentile, the bucket size of a trend, the compared segments, …)
+// are read into the plan, so that follow-ups keep them. `text` is the wording the plan was read from.
+export type QueryPlan = {
+  operation: string
+  operations: string[]
+  targets: string[]
+  filters: FilterCondition[]
+  groupBy: string | null
+  sort: { column: string | null; direction: "asc" | "desc" } | null
+  limit: number | null
+  offset: number
+  sheet: string
+  text: string
+  columnMatches: ColumnMatch[]
+  dateRange: DateRange | null
+  percentile: number | null
+  binRule: "freedman-diaconis" | "sturges"
+  granularity: TimeGranularity | null
+  aggregation: AggregationOperation | null
+  segments: Segment[]
+  correlationMatrix: boolean
+  search: SearchRequest | null
+  inherited: {
+    operation: boolean
+    targets: string[]
+    filters: FilterCondition[]
+    groupBy: boolean
+    dateRange: boolean
+  }
+}
+// A time range named in a query ("last quarter"), applied to the sheet's date column if it has one
+export type DateRange = { column: string | null; start: Date; end: Date; text: string }
+// A value of a category column that a comparison is made for, e.g. City = "Berlin"
+export type Segment = { column: string; value: string }
+// What a search looks for: the value, the column named for it, and whether the rows without it are wanted
+export type SearchRequest = { value: string; column: string | null; negated: boolean }
+// The decimal separator of each column of a sheet, e.g. { Betrag: ",", Price: "." }
+export type DecimalSeparators = Record<string, "." | ",">
+// Other names for columns of one workbook, e.g. { Net_Rev_EUR: ["revenue", "sales", "Umsatz"] }
+export type ColumnAliases = Record<string, string[]>
+// A column found in a query; `heard` is the wording used and `score` how sure the match is (1 = exact)
+export type ColumnMatch = { column: string; heard: string; start: number; end: number; score: number }
+// Spoken numbers are read in these languages; a number word splits into values, magnitudes and "and"
+export type NumberLanguage = "en-US" | "de-DE"
+export type NumberPart = { kind: "value" | "scale" | "connector"; value: number }
+export type TimeGranularity = "day" | "week" | "month" | "quarter" | "year"
+export type NLPModel = {
+  model: any
+  encoder: any
+  tokenizer: any
+  loaded: boolean
+}
+
+// Common abbreviations in column names, so that "quantity" finds "Qty" and "Kundennummer" finds "KdNr"
+const columnAbbreviations: Record<string, string> = {
+  qty: "quantity",
+  amt: "amount",
+  no: "number",
+  nr: "nummer",
+  num: "number",
+  pct: "percent",
+  perc: "percent",
+  cust: "customer",
+  desc: "description",
+  descr: "description",
+  dt: "date",
+  rev: "revenue",
+  avg: "average",
+  cnt: "count",
+  addr: "address",
+  tel: "telephone",
+  prod: "product",
+  cat: "category",
+  dept: "department",
+  emp: "employee",
+  inv: "invoice",
+  ord: "order",
+  pos: "position",
+  temp: "temperature",
+  mwst: "mehrwertsteuer",
+  ust: "umsatzsteuer",
+  bez: "bezeichnung",
+  kd: "kunde",
+  kdnr: "kundennummer",
+  anz: "anzahl",
+  stk: "stück",
+  betr: "betrag",
+  art: "artikel",
+  artnr: "artikelnummer",
+  eur: "euro",
+}
+
+// Words that never name a column on their own; fuzzy matches must not start or end with one
+const columnStopwords = new Set([
+  "the",
+  "a",
+  "an",
+  "of",
+  "and",
+  "or",
+  "in",
+  "on",
+  "at",
+  "by",
+  "for",
+  "to",
+  "is",
+  "are",
+  "was",
+  "what",
+  "which",
+  "how",
+  "many",
+  "much",
+  "with",
+  "where",
+  "show",
+  "me",
+  "give",
+  "all",
+  "per",
+  "each",
+  "from",
+  "than",
+  "there",
+  "rows",
+  "row",
+  "data",
+  "sheet",
+  "table",
+  "entries",
+  "values",
+  "value",
+  "column",
+  "columns",
+  "it",
+  "its",
+  "that",
+  "this",
+  "not",
+  "only",
+  "der",
+  "die",
+  "das",
+  "den",
+  "dem",
+  "des",
+  "ein",
+  "eine",
+  "einen",
+  "und",
+  "oder",
+  "im",
+  "am",
+  "an",
+  "auf",
+  "aus",
+  "bei",
+  "für",
+  "mit",
+  "von",
+  "vom",
+  "zu",
+  "zum",
+  "ist",
+  "sind",
+  "was",
+  "wie",
+  "viele",
+  "wo",
+  "welche",
+  "welcher",
+  "pro",
+  "je",
+  "nach",
+  "alle",
+  "zeige",
+  "gib",
+  "mir",
+  "als",
+  "zeilen",
+  "daten",
+  "tabelle",
+  "werte",
+  "spalte",
+  "nicht",
+  "nur",
+  "um",
+  // Operation words, so that "count of status" doesn't hear a column "Kunde" in "count"
+  "count",
+  "sum",
+  "total",
+  "average",
+  "mean",
+  "avg",
+  "median",
+  "mode",
+  "minimum",
+  "min",
+  "maximum",
+  "max",
+  "highest",
+  "lowest",
+  "largest",
+  "smallest",
+  "top",
+  "bottom",
+  "trend",
+  "compare",
+  "correlation",
+  "unique",
+  "distinct",
+  "distribution",
+  "share",
+  "percent",
+  "percentage",
+  "percentile",
+  "variance",
+  "deviation",
+  "standard",
+  "filter",
+  "search",
+  "find",
+  "anzahl",
+  "summe",
+  "gesamt",
+  "durchschnitt",
+  "mittelwert",
+  "höchste",
+  "niedrigste",
+  "größte",
+  "kleinste",
+  "vergleiche",
+  "korrelation",
+  "verteilung",
+  "anteil",
+  "varianz",
+  "standardabweichung",
+  "zähle",
+  "finde",
+  "suche",
+])
+
+// Split a text into lower-case words with their positions
+const tokenizeWords = (text: string): { word: string; start: number; end: number }[] =>
+  [...text.toLowerCase().matchAll(/[\p{L}\p{N}]+/gu)].map((match) => ({
+    word: match[0],
+    start: match.index as number,
+    end: (match.index as number) + match[0].length,
+  }))
+
+// Split a column name into words: "NetRevEUR", "net_rev_eur" and "Net Rev EUR" all give net, rev, eur
+const tokenizeColumnName = (column: string): string[] =>
+  column
+    .replace(/([\p{Ll}\p{N}])(\p{Lu})/gu, "$1 $2")
+    .replace(/(\p{Lu})(\p{Lu}\p{Ll})/gu, "$1 $2")
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word.length > 0)
+
+// Check whether a word is the base word or a plural or inflected form of it ("customers", "cities")
+const isInflectionOf = (word: string, base: string): boolean =>
+  word === base ||
+  (word.startsWith(base) && ["s", "es", "e", "n", "en"].includes(word.slice(base.length))) ||
+  (base.endsWith("y") && word === `${base.slice(0, -1)}ies`)
+
+// Levenshtein edit distance
+export const editDistance = (a: string, b: string): number => {
+  let previousRow = Array.from({ length: b.length + 1 }, (_, index) => index)
+  for (let i = 1; i <= a.length; i++) {
+    const currentRow = [i]
+    for (let j = 1; j <= b.length; j++) {
+      currentRow[j] = Math.min(
+        previousRow[j] + 1,
+        currentRow[j - 1] + 1,
+        previousRow[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      )
+    }
+    previousRow = currentRow
+  }
+  return previousRow[b.length]
+}
+
+// Double Metaphone (Lawrence Philips): a primary and an alternate English sound code
+const doubleMetaphone = (word: string): [string, string] => {
+  const value = word
+    .toUpperCase()
+    .normalize("NFD")
+    .replace(/[̀-ͯ]/g, "")
+    .replace(/[^A-Z]/g, "")
+  const length = value.length
+  const last = length - 1
+  let primary = ""
+  let alternate = ""
+  let index = 0
+
+  const charAt = (position: number) => (position >= 0 && position < length ? value[position] : "")
+  const stringAt = (start: number, size: number, ...options: string[]) =>
+    start >= 0 && options.includes(value.substr(start, size))
+  const isVowel = (position: number) => "AEIOUY".includes(charAt(position)) && charAt(position) !== ""
+  const slavoGermanic = /W|K|CZ|WITZ/.test(value)
+  const add = (main: string, other = main) => {
+    primary += main
+    alternate += other
+  }
+
+  if (length === 0) return ["", ""]
+
+  // Silent first letters, and an initial X that sounds like S ("Xavier")
+  if (stringAt(0, 2, "GN", "KN", "PN", "WR", "PS")) index++
+  if (charAt(0) === "X") {
+    add("S")
+    index++
+  }
+
+  while (index < length) {
+    const char = value[index]
+    switch (char) {
+      case "A":
+      case "E":
+      case "I":
+      case "O":
+      case "U":
+      case "Y":
+        if (index === 0) add("A")
+        index++
+        break
+      case "B":
+        add("P")
+        index += charAt(index + 1) === "B" ? 2 : 1
+        break
+      case "C":
+        if (
+          index > 1 &&
+          !isVowel(index - 2) &&
+          stringAt(index - 1, 3, "ACH") &&
+          charAt(index + 2) !== "I" &&
+          (charAt(index + 2) !== "E" || stringAt(index - 2, 6, "BACHER", "MACHER"))
+        ) {
+          add("K")
+          index += 2
+        } else if (index === 0 && stringAt(index, 6, "CAESAR")) {
+          add("S")
+          index += 2
+        } else if (stringAt(index, 4, "CHIA")) {
+          add("K")
+          index += 2
+        } else if (stringAt(index, 2, "CH")) {
+          if (index > 0 && stringAt(index, 4, "CHAE")) {
+            add("K", "X")
+          } else if (
+            index === 0 &&
+            (stringAt(index + 1, 5, "HARAC", "HARIS") || stringAt(index + 1, 3, "HOR", "HYM", "HIA", "HEM")) &&
+            !stringAt(0, 5, "CHORE")
+          ) {
+            add("K")
+          } else if (
+            stringAt(0, 3, "SCH") ||
+            stringAt(index - 2, 6, "ORCHES", "ARCHIT", "ORCHID") ||
+            stringAt(index + 2, 1, "T", "S") ||
+            ((index === 0 || stringAt(index - 1, 1, "A", "O", "U", "E")) &&
+              stringAt(index + 2, 1, "L", "R", "N", "M", "B", "H", "F", "V", "W"))
+          ) {
+            add("K")
+          } else if (index > 0) {
+            if (stringAt(0, 2, "MC")) add("K")
+            else add("X", "K")
+          } else {
+            add("X")
+          }
+          index += 2
+        } else if (stringAt(index, 2, "CZ") && !stringAt(index - 2, 4, "WICZ")) {
+          add("S", "X")
+          index += 2
+        } else if (stringAt(index + 1, 3, "CIA")) {
+          add("X")
+          index += 3
+        } else if (stringAt(index, 2, "CC") && !(index === 1 && charAt(0) === "M")) {
+          if (stringAt(index + 2, 1, "I", "E", "H") && !stringAt(index + 2, 2, "HU")) {
+            if ((index === 1 && charAt(0) === "A") || stringAt(index - 1, 5, "UCCEE", "UCCES")) add("KS")
+            else add("X")
+            index += 3
+          } else {
+            add("K")
+            index += 2
+          }
+        } else if (stringAt(index, 2, "CK", "CG", "CQ")) {
+          add("K")
+          index += 2
+        } else if (stringAt(index, 2, "CI", "CE", "CY")) {
+          if (stringAt(index, 3, "CIO", "CIE", "CIA")) add("S", "X")
+          else add("S")
+          index += 2
+        } else {
+          add("K")
+          index += stringAt(index + 1, 1, "C", "K", "Q") && !stringAt(index + 1, 2, "CE", "CI") ? 2 : 1
+        }
+        break
+      case "D":
+        if (stringAt(index, 2, "DG")) {
+          if (stringAt(index + 2, 1, "I", "E", "Y")) {
+            add("J")
+            index += 3
+          } else {
+            add("TK")
+            index += 2
+          }
+        } else {
+          add("T")
+          index += stringAt(index, 2, "DT", "DD") ? 2 : 1
+        }
+        break
+      case "F":
+      case "V":
+        add("F")
+        index += charAt(index + 1) === char ? 2 : 1
+        break
+      case "G":
+        if (charAt(index + 1) === "H") {
+          if (index > 0 && !isVowel(index - 1)) {
+            add("K")
+          } else if (index === 0) {
+            add(charAt(index + 2) === "I" ? "J" : "K")
+          } else if (
+            !stringAt(index - 2, 1, "B", "H", "D") &&
+            !stringAt(index - 3, 1, "B", "H", "D") &&
+            !stringAt(index - 4, 1, "B", "H")
+          ) {
+            if (index > 2 && charAt(index - 1) === "U" && stringAt(index - 3, 1, "C", "G", "L", "R", "T")) add("F")
+            else if (charAt(index - 1) !== "I") add("K")
+          }
+          index += 2
+        } else if (charAt(index + 1) === "N") {
+          if (index === 1 && isVowel(0) && !slavoGermanic) add("KN", "N")
+          else if (!stringAt(index + 2, 2, "EY") && !slavoGermanic) add("N", "KN")
+          else add("KN")
+          index += 2
+        } else if (stringAt(index + 1, 2, "LI") && !slavoGermanic) {
+          add("KL", "L")
+          index += 2
+        } else if (
+          index === 0 &&
+          (charAt(1) === "Y" || stringAt(1, 2, "ES", "EP", "EB", "EL", "EY", "IB", "IL", "IN", "IE", "EI", "ER"))
+        ) {
+          add("K", "J")
+          index += 2
+        } else if (
+          (stringAt(index + 1, 2, "ER") || charAt(index + 1) === "Y") &&
+          !stringAt(0, 6, "DANGER", "RANGER", "MANGER") &&
+          !stringAt(index - 1, 1, "E", "I") &&
+          !stringAt(index - 1, 3, "RGY", "OGY")
+        ) {
+          add("K", "J")
+          index += 2
+        } else if (stringAt(index + 1, 1, "E", "I", "Y") || stringAt(index - 1, 4, "AGGI", "OGGI")) {
+          if (stringAt(0, 3, "SCH") || stringAt(index + 1, 2, "ET")) add("K")
+          else if (stringAt(index + 1, 3, "IER")) add("J")
+          else add("J", "K")
+          index += 2
+        } else {
+          add("K")
+          index += charAt(index + 1) === "G" ? 2 : 1
+        }
+        break
+      case "H":
+        if ((index === 0 || isVowel(index - 1)) && isVowel(index + 1)) {
+          add("H")
+          index += 2
+        } else {
+          index++
+        }
+        break
+      case "J":
+        if (stringAt(index, 4, "JOSE")) {
+          add("H")
+        } else if (index === 0) {
+          add("J", "A")
+        } else if (isVowel(index - 1) && !slavoGermanic && stringAt(index + 1, 1, "A", "O")) {
+          add("J", "H")
+        } else if (index === last) {
+          add("J", "")
+        } else if (
+          !stringAt(index + 1, 1, "L", "T", "K", "S", "N", "M", "B", "Z") &&
+          !stringAt(index - 1, 1, "S", "K", "L")
+        ) {
+          add("J")
+        }
+        index += charAt(index + 1) === "J" ? 2 : 1
+        break
+      case "K":
+      case "Q":
+        add("K")
+        index += charAt(index + 1) === char ? 2 : 1
+        break
+      case "L":
+        if (charAt(index + 1) === "L") {
+          if (
+            (index === length - 3 && stringAt(index - 1, 4, "ILLO", "ILLA", "ALLE")) ||
+            ((stringAt(last - 1, 2, "AS", "OS") || stringAt(last, 1, "A", "O")) && stringAt(index - 1, 4, "ALLE"))
+          ) {
+            add("L", "")
+          } else {
+            add("L")
+          }
+          index += 2
+        } else {
+          add("L")
+          index++
+        }
+        break
+      case "M":
+        add("M")
+        index +=
+          charAt(index + 1) === "M" ||
+          (stringAt(index - 1, 3, "UMB") && (index + 1 === last || stringAt(index + 2, 2, "ER")))
+            ? 2
+            : 1
+        break
+      case "N":
+        add("N")
+        index += charAt(index + 1) === "N" ? 2 : 1
+        break
+      case "P":
+        if (charAt(index + 1) === "H") {
+          add("F")
+          index += 2
+        } else {
+          add("P")
+          index += stringAt(index + 1, 1, "P", "B") ? 2 : 1
+        }
+        break
+      case "R":
+        if (index === last && !slavoGermanic && stringAt(index - 2, 2, "IE") && !stringAt(index - 4, 2, "ME", "MA")) {
+          add("", "R")
+        } else {
+          add("R")
+        }
+        index += charAt(index + 1) === "R" ? 2 : 1
+        break
+      case "S":
+        if (stringAt(index - 1, 3, "ISL", "YSL")) {
+          index++
+        } else if (index === 0 && stringAt(index, 5, "SUGAR")) {
+          add("X", "S")
+          index++
+        } else if (stringAt(index, 2, "SH")) {
+          add(stringAt(index + 1, 4, "HEIM", "HOEK", "HOLM", "HOLZ") ? "S" : "X")
+          index += 2
+        } else if (stringAt(index, 3, "SIO", "SIA") || stringAt(index, 4, "SIAN")) {
+          add("S", slavoGermanic ? "S" : "X")
+          index += 3
+        } else if ((index === 0 && stringAt(index + 1, 1, "M", "N", "L", "W")) || stringAt(index + 1, 1, "Z")) {
+          add("S", "X")
+          index += stringAt(index + 1, 1, "Z") ? 2 : 1
+        } else if (stringAt(index, 2, "SC")) {
+          if (charAt(index + 2) === "H") {
+            if (stringAt(index + 3, 2, "OO", "ER", "EN", "UY", "ED", "EM")) {
+              add(stringAt(index + 3, 2, "ER", "EN") ? "X" : "SK", "SK")
+            } else {
+              add("X", index === 0 && !isVowel(3) && charAt(3) !== "W" ? "S" : "X")
+            }
+          } else if (stringAt(index + 2, 1, "I", "E", "Y")) {
+            add("S")
+          } else {
+            add("SK")
+          }
+          index += 3
+        } else {
+          if (index === last && stringAt(index - 2, 2, "AI", "OI")) add("", "S")
+          else add("S")
+          index += stringAt(index + 1, 1, "S", "Z") ? 2 : 1
+        }
+        break
+      case "T":
+        if (stringAt(index, 4, "TION") || stringAt(index, 3, "TIA", "TCH")) {
+          add("X")
+          index += 3
+        } else if (stringAt(index, 2, "TH") || stringAt(index, 3, "TTH")) {
+          if (stringAt(index + 2, 2, "OM", "AM") || stringAt(0, 3, "SCH")) add("T")
+          else add("0", "T")
+          index += 2
+        } else {
+          add("T")
+          index += stringAt(index + 1, 1, "T", "D") ? 2 : 1
+        }
+        break
+      case "W":
+        if (stringAt(index, 2, "WR")) {
+          add("R")
+          index += 2
+          break
+        }
+        if (index === 0 && (isVowel(index + 1) || stringAt(index, 2, "WH"))) {
+          if (isVowel(index + 1)) add("A", "F")
+          else add("A")
+        }
+        if (
+          (index === last && isVowel(index - 1)) ||
+          stringAt(index - 1, 5, "EWSKI", "EWSKY", "OWSKI", "OWSKY") ||
+          stringAt(0, 3, "SCH")
+        ) {
+          add("", "F")
+          index++
+        } else if (stringAt(index, 4, "WICZ", "WITZ")) {
+          add("TS", "FX")
+          index += 4
+        } else {
+          index++
+        }
+        break
+      case "X":
+        if (!(index === last && (stringAt(index - 3, 3, "IAU", "EAU") || stringAt(index - 2, 2, "AU", "OU")))) {
+          add("KS")
+        }
+        index += stringAt(index + 1, 1, "C", "X") ? 2 : 1
+        break
+      case "Z":
+        if (charAt(index + 1) === "H") {
+          add("J")
+          index += 2
+        } else {
+          if (stringAt(index + 1, 2, "ZO", "ZI", "ZA") || (slavoGermanic && index > 0 && charAt(index - 1) !== "T")) {
+            add("S", "TS")
+          } else {
+            add("S")
+          }
+          index += charAt(index + 1) === "Z" ? 2 : 1
+        }
+        break
+      default:
+        index++
+    }
+  }
+
+  return [primary, alternate]
+}
+
+// Kölner Phonetik: a German sound code, e.g. "Müller" and "Mueller" both give 657
+const colognePhonetics = (word: string): string => {
+  const value = word
+    .toLowerCase()
+    .replace(/ä/g, "a")
+    .replace(/ö/g, "o")
+    .replace(/ü/g, "u")
+    .replace(/ß/g, "s")
+    .replace(/[^a-z]/g, "")
+  let codes = ""
+
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i]
+    const previous = value[i - 1] || ""
+    const next = value[i + 1] || ""
+
+    if ("aeijouy".includes(char)) codes += "0"
+    else if (char === "b") codes += "1"
+    else if (char === "p") codes += next === "h" ? "3" : "1"
+    else if (char === "d" || char === "t") codes += "csz".includes(next) && next !== "" ? "8" : "2"
+    else if ("fvw".includes(char)) codes += "3"
+    else if ("gkq".includes(char)) codes += "4"
+    else if (char === "c") {
+      if (i === 0) codes += "ahkloqrux".includes(next) && next !== "" ? "4" : "8"
+      else codes += "sz".includes(previous) || !"ahkoqux".includes(next) || next === "" ? "8" : "4"
+    } else if (char === "x") codes += "ckq".includes(previous) && previous !== "" ? "8" : "48"
+    else if (char === "l") codes += "5"
+    else if (char === "m" || char === "n") codes += "6"
+    else if (char === "r") codes += "7"
+    else if (char === "s" || char === "z") codes += "8"
+  }
+
+  // Collapse repeated codes, then drop vowels except at the start
+  const collapsed = [...codes].filter((code, index) => index === 0 || code !== codes[index - 1]).join("")
+  return collapsed.slice(0, 1) + collapsed.slice(1).replace(/0/g, "")
+}
+
+// Score how well a spoken phrase matches a column name: 1 for the same words (ignoring case,
+// spacing, punctuation and plurals), less for abbreviations, misspellings and sound-alikes
+const scoreColumnMatch = (phrase: string, column: string, allowFuzzy: boolean): number => {
+  const columnWords = tokenizeColumnName(column)
+  const columnText = columnWords.join("")
+  const expandedText = columnWords.map((word) => columnAbbreviations[word] || word).join("")
+  const phraseText = phrase.replace(/[^\p{L}\p{N}]/gu, "")
+  const expandedPhrase = tokenizeWords(phrase)
+    .map(({ word }) => columnAbbreviations[word] || word)
+    .join("")
+
+  if (isInflectionOf(phraseText, columnText)) return 1
+  if (!allowFuzzy) return 0
+  if (isInflectionOf(phraseText, expandedText) || isInflectionOf(expandedPhrase, columnText)) return 0.9
+
+  let score = 0
+  for (const candidate of [...new Set([columnText, expandedText])]) {
+    if (phraseText.length >= 4 && candidate.length >= 4) {
+      const similarity = 1 - editDistance(phraseText, candidate) / Math.max(phraseText.length, candidate.length)
+      if (similarity >= 0.8) score = Math.max(score, 0.9 * similarity)
+    }
+
+    if (phraseText.length >= 3 && candidate.length >= 3) {
+      const [phrasePrimary, phraseAlternate] = doubleMetaphone(phraseText)
+      const [columnPrimary, columnAlternate] = doubleMetaphone(candidate)
+      const metaphoneMatch =
+        phrasePrimary.length >= 2 &&
+        [phrasePrimary, phraseAlternate].some((code) => code === columnPrimary || code === columnAlternate)
+      const cologneCode = colognePhonetics(phraseText)
+      const cologneMatch = cologneCode.length >= 2 && cologneCode === colognePhonetics(candidate)
+      if (metaphoneMatch || cologneMatch) score = Math.max(score, 0.75)
+    }
+  }
+
+  return score
+}
+
+// Find the columns a query mentions, also when speech recognition mangled their names.
+// Aliases count like the column's own name. Each match has the heard text, its position and a score between 0 and 1.
+const resolveColumnMentions = (query: string, columns: string[], aliases: ColumnAliases = {}): ColumnMatch[] => {
+  const words = tokenizeWords(query)
+  const candidates: ColumnMatch[] = []
+
+  for (const column of columns) {
+    for (const name of [column, ...(aliases[column] || [])]) {
+      const nameWords = tokenizeColumnName(name)
+      const columnWordCount = Math.max(1, nameWords.length)
+      // A stopword can still be part of the name itself ("Müller Anteil")
+      const isStopword = (word: string) => columnStopwords.has(word) && !nameWords.includes(word)
+
+      // Spoken names can be split into more words ("um satz netto") or merged into fewer
+      for (let size = Math.max(1, columnWordCount - 1); size <= columnWordCount + 2; size++) {
+        for (let first = 0; first + size <= words.length; first++) {
+          const window = words.slice(first, first + size)
+          const phrase = window.map(({ word }) => word).join(" ")
+
+          // Guessing only for phrases that could be a name, not for "the" or "for each"
+          const allowFuzzy =
+            !isStopword(window[0].word) &&
+            !isStopword(window[window.length - 1].word) &&
+            !/^\d+$/.test(phrase.replace(/ /g, ""))
+          const score = scoreColumnMatch(phrase, name, allowFuzzy)
+          if (score > 0) {
+            candidates.push({
+              column,
+              heard: query.slice(window[0].start, window[window.length - 1].end),
+              start: window[0].start,
+              end: window[window.length - 1].end,
+              score,
+            })
+          }
+        }
+      }
+    }
+  }
+
+  // Best matches first, longer ones on ties; every column and every word is used once
+  const matches: ColumnMatch[] = []
+  for (const candidate of candidates.sort((a, b) => b.score - a.score || b.end - b.start - (a.end - a.start))) {
+    if (matches.some((match) => match.column === candidate.column)) continue
+    if (matches.some((match) => candidate.start < match.end && candidate.end > match.start)) continue
+    matches.push(candidate)
+  }
+
+  return matches.sort((a, b) => a.start - b.start)
+}
+
+// Function to extract column names from query
+const extractColumns = (query: string, columns: string[], aliases: ColumnAliases = {}): string[] => {
+  const mentionedColumns: string[] = []
+  const lowerCaseQuery = query.toLowerCase()
+  const resolvedMatches = resolveColumnMentions(query, columns, aliases)
+
+  for (const column of columns) {
+    if (lowerCaseQuery.includes(column.toLowerCase()) || resolvedMatches.some((match) => match.column === column)) {
+      mentionedColumns.push(column)
+    }
+  }
+
+  // Columns named exactly come before guessed ones
+  const isExact = (column: string) =>
+    lowerCaseQuery.includes(column.toLowerCase()) ||
+    resolvedMatches.some((match) => match.column === column && match.score === 1)
+  return [...mentionedColumns.filter(isExact), ...mentionedColumns.filter((column) => !isExact(column))]
+}
+
+// Function to extract the group-by column ("by region", "per category", "pro Land")
+const extractGroupByColumn = (query: string, columns: string[], aliases: ColumnAliases = {}): string | null => {
+  const lowerCaseQuery = query.toLowerCase()
+  const groupByPattern =
+    /(?:^|\s)(?:grouped by|group by|broken down by|split by|for each|for every|per|by|each|gruppiert nach|aufgeschlüsselt nach|für jede|für jeden|für jedes|pro|je|nach)\s+(?:the|a|der|die|das|dem|den)?\s*$/
+
+  for (const mention of findColumnMentions(query, columns, aliases)) {
+    if (groupByPattern.test(lowerCaseQuery.slice(0, mention.start))) {
+      return mention.column
+    }
+  }
+
+  return null
+}
+
+// Phrases that open an elliptical follow-up ("and the maximum?", "und für Berlin?")
+const followUpCues = [
+  "and",
+  "und",
+  "also",
+  "auch",
+  "what about",
+  "how about",
+  "same for",
+  "the same for",
+  "was ist mit",
+  "wie sieht es",
+  "wie ist es",
+  "dasselbe für",
+  "das gleiche für",
+  "und jetzt",
+  "and now",
+]
+
+// Pronouns that refer to the columns of the previous question
+const previousColumnReferences = [
+  "it",
+  "its",
+  "that column",
+  "this column",
+  "the same column",
+  "those values",
+  "them",
+  "diese spalte",
+  "dieser spalte",
+  "derselben spalte",
+  "davon",
+  "dafür",
+  "dazu",
+]
+
+// Check whether a query continues the previous one instead of standing on its own
+const isFollowUpQuery = (query: string): boolean => {
+  const lowerCaseQuery = query.toLowerCase().trim()
+  return followUpCues.some((cue) => findPhrase(lowerCaseQuery, cue) === 0)
+}
+
+// Describe what a follow-up took over from the previous question
+const describeInheritedContext = (result: QueryResult, plan: QueryPlan, language: Language): QueryResult => {
+  const { inherited } = plan
+  const parts: string[] = []
+  if (inherited.operation) {
+    const operationName = plan.operations
+      .map((operation) =>
+        operation in combinedOperationLabels
+          ? combinedOperationLabels[operation as CombinedOperation][language === "de-DE" ? "de" : "en"]
+          : operation,
+      )
+      .join(", ")
+    parts.push(language === "de-DE" ? `die Berechnung (${operationName})` : `the operation (${operationName})`)
+  }
+  if (inherited.targets.length > 0) {
+    parts.push(
+      language === "de-DE"
+        ? `${inherited.targets.length === 1 ? "die Spalte" : "die Spalten"} ${inherited.targets.join(", ")}`
+        : `${inherited.targets.length === 1 ? "the column" : "the columns"} ${inherited.targets.join(", ")}`,
+    )
+  }
+  if (inherited.filters.length > 0) {
+    const conditionText = inherited.filters
+      .map((condition) => describeFilterCondition(condition, language))
+      .join(language === "de-DE" ? " und " : " and ")
+    parts.push(
+      language === "de-DE"
+        ? `${inherited.filters.length === 1 ? "die Bedingung" : "die Bedingungen"} ${conditionText}`
+        : `${inherited.filters.length === 1 ? "the condition" : "the conditions"} ${conditionText}`,
+    )
+  }
+  if (inherited.groupBy && plan.groupBy) {
+    parts.push(language === "de-DE" ? `die Gruppierung nach ${plan.groupBy}` : `the grouping by ${plan.groupBy}`)
+  }
+  if (inherited.dateRange && plan.dateRange) {
+    parts.push(
+      language === "de-DE"
+        ? `den Zeitraum ${formatDateRange(plan.dateRange, language)}`
+        : `the time range ${formatDateRange(plan.dateRange, language)}`,
+    )
+  }
+  if (parts.length === 0) return result
+
+  return {
+    ...result,
+    explanation:
+      language === "de-DE"
+        ? `Aus der vorherigen Frage übernommen: ${parts.join(", ")}. ${result.explanation}`
+        : `Carried over from the previous question: ${parts.join(", ")}. ${result.explanation}`,
+  }
+}
+
+// Phrases that set a sticky analysis scope ("from now on only look at 2023")
+const setScopePhrases = [
+  "from now on",
+  "only consider",
+  "only look at",
+  "only use",
+  "restrict the analysis to",
+  "limit the analysis to",
+  "restrict to",
+  "von nun an",
+  "ab jetzt",
+  "ab sofort",
+  "betrachte nur",
+  "berücksichtige nur",
+  "schau nur",
+  "nur noch",
+]
+
+// Phrases that clear the analysis scope again
+const clearScopePhrases = [
+  "reset the filter",
+  "clear the filter",
+  "remove the filter",
+  "reset the scope",
+  "clear the scope",
+  "remove the scope",
+  "use all rows",
+  "all rows again",
+  "all data again",
+  "filter zurücksetzen",
+  "setze den filter zurück",
+  "filter entfernen",
+  "filter löschen",
+  "entferne den filter",
+  "alle zeilen wieder",
+  "alle daten wieder",
+]
+
+// Detect commands that change the analysis scope, and the text holding the new conditions
+const parseScopeCommand = (query: string): { action: "set"; conditionText: string } | { action: "clear" } | null => {
+  const lowerCaseQuery = query.toLowerCase()
+  if (clearScopePhrases.some((phrase) => containsPhrase(lowerCaseQuery, phrase))) {
+    return { action: "clear" }
+  }
+
+  // The conditions follow the last scope phrase: "from now on only look at 2023"
+  const conditionStart = setScopePhrases.reduce((end, phrase) => {
+    const index = findPhrase(lowerCaseQuery, phrase)
+    return index !== -1 ? Math.max(end, index + phrase.length) : end
+  }, -1)
+
+  return conditionStart !== -1 ? { action: "set", conditionText: query.slice(conditionStart) } : null
+}
+
+// Check a row against every condition of the analysis scope
+const matchesAnalysisScope = (row: any, scope: FilterCondition[], decimalSeparators: DecimalSeparators): boolean =>
+  scope.every((condition) => matchesFilterCondition(row, condition, decimalSeparators))
+
+// Set or clear the analysis scope that applies to all following queries
+const updateAnalysisScope = (
+  command: { action: "set"; conditionText: string } | { action: "clear" },
+  scope: FilterCondition[],
+  data: any[],
+  columns: string[],
+  decimalSeparators: DecimalSeparators,
+  language: Language,
+  aliases: ColumnAliases = {},
+): QueryResult => {
+  const followUpQuestions = [
+    language === "de-DE" ? "Gib mir einen Überblick über die Daten." : "Give me an overview of the data.",
+    language === "de-DE" ? "Wie viele Einträge gibt es insgesamt?" : "How many entries are there in total?",
+  ]
+
+  if (command.action === "clear") {
+    return {
+      answer:
+        scope.length === 0
+          ? language === "de-DE"
+            ? "Es ist kein Filter aktiv. Es werden bereits alle Zeilen berücksichtigt."
+            : "There is no active filter. All rows are already considered."
+          : language === "de-DE"
+            ? `Der Filter wurde zurückgesetzt. Es werden wieder alle ${data.length} Zeilen berücksichtigt.`
+            : `The filter has been reset. All ${data.length} rows are considered again.`,
+      explanation: "",
+      data: null,
+      followUpQuestions,
+      confidence: 0.95,
+      usedColumns: [],
+      operation: "scope",
+      scope: [],
+    }
+  }
+
+  // A time range ("in 2023", "last quarter") applies to the date column the text names, or else the first one
+  const dateColumn = findDateColumn(data, columns, extractColumns(command.conditionText, columns, aliases))
+  const foundDateExpression = dateColumn ? parseDateExpression(command.conditionText) : null
+  const dateExpression =
+    foundDateExpression &&
+    !isNumericYearRange(foundDateExpression, command.conditionText, data, columns, decimalSeparators, aliases)
+      ? foundDateExpression
+      : null
+  const conditionText = dateExpression
+    ? `${command.conditionText.slice(0, dateExpression.index)} ${command.conditionText.slice(dateExpression.index + dateExpression.text.length)}`
+    : command.conditionText
+  const periodCondition = (period: { start: Date; end: Date; text: string }): FilterCondition => ({
+    column: dateColumn as string,
+    operator: "withinDates",
+    value: period.text.trim(),
+    dateRange: { start: period.start, end: period.end },
+    negated: false,
+  })
+
+  // Conditions with a column ("region is EMEA"), otherwise known values ("2023", "Berlin")
+  const lowerCaseText = conditionText.toLowerCase()
+  let conditions = parseFilterConditions(conditionText, data, columns, aliases)
+  if (conditions.length === 0) {
+    conditions = findSegmentMentions(conditionText, data, columns, decimalSeparators).map((mention) => ({
+      column: mention.column,
+      operator: "equals" as FilterOperator,
+      value: mention.value,
+      negated: [...exclusionWords, ...negationWords].some((word) =>
+        containsPhrase(lowerCaseText.slice(0, mention.start), word),
+      ),
+    }))
+  }
+
+  // A bare period that is no value of the sheet ("only look at 2023", "ab jetzt nur März 2024") is a time range too
+  const periodText = conditionText.trim().replace(/[.!?]+$/, "")
+  const barePeriod =
+    dateColumn && !dateExpression && conditions.length === 0 ? parseDateExpression(`in ${periodText}`) : null
+  if (dateExpression) {
+    conditions.push(periodCondition(dateExpression))
+  } else if (barePeriod && barePeriod.text === `in ${periodText.toLowerCase()}`) {
+    conditions.push(periodCondition({ ...barePeriod, text: periodText }))
+  }
+
+  if (conditions.length === 0) {
+    return {
+      answer:
+        language === "de-DE"
+          ? "Ich konnte keine Bedingung erkennen. Versuchen Sie z.B. „Berücksichtige nur Zeilen, in denen Region EMEA ist“."
+          : 'I couldn\'t identify a condition. Try e.g. "Only consider rows where region is EMEA".',
+      explanation: "",
+      data: null,
+      followUpQuestions: [],
+      confidence: 0.5,
+      usedColumns: [],
+      operation: "scope",
+    }
+  }
+
+  // A new condition replaces an older one on the same column, other conditions stay
+  const newScope = [
+    ...scope.filter((existing) => !conditions.some((condition) => condition.column === existing.column)),
+    ...conditions,
+  ]
+  const matchingRowCount = data.filter((row) => matchesAnalysisScope(row, newScope, decimalSeparators)).length
+  const scopeText = newScope
+    .map((condition) => describeFilterCondition(condition, language))
+    .join(language === "de-DE" ? " und " : " and ")
+
+  return {
+    answer:
+      language === "de-DE"
+        ? `Ab jetzt berücksichtige ich nur noch die ${matchingRowCount} Zeilen, für die gilt: ${scopeText}. Sagen Sie „Filter zurücksetzen“, um wieder alle Zeilen zu verwenden.`
+        : `From now on I'll only consider the ${matchingRowCount} rows where ${scopeText}. Say "reset the filter" to use all rows again.`,
+    explanation:
+      language === "de-DE"
+        ? `Der Filter gilt für alle folgenden Fragen, bis er zurückgesetzt wird. ${matchingRowCount} von ${data.length} Zeilen erfüllen ihn.`
+        : `The filter applies to all following questions until it is reset. ${matchingRowCount} of ${data.length} rows match it.`,
+    data: null,
+    followUpQuestions,
+    confidence: 0.9,
+    usedColumns: [...new Set(newScope.map((condition) => condition.column))],
+    operation: "scope",
+    scope: newScope,
+  }
+}
+
+// Identify a workbook by its sheet and column names, so its aliases are found again after a reload
+export const getWorkbookFingerprint = (excelData: ExcelData): string => {
+  const structure = Object.entries(excelData.sheets)
+    .map(([sheetName, rows]) => `${sheetName}:${rows.length > 0 ? Object.keys(rows[0]).join("|") : ""}`)
+    .join("\n")
+  let hash = 5381
+  for (let i = 0; i < structure.length; i++) {
+    hash = ((hash << 5) + hash + structure.charCodeAt(i)) | 0
+  }
+  return (hash >>> 0).toString(36)
+}
+
+const columnAliasStorageKey = (fingerprint: string) => `column-aliases:${fingerprint}`
+
+// Read the aliases stored for a workbook in the browser
+export const loadColumnAliases = (fingerprint: string): ColumnAliases => {
+  if (typeof window === "undefined") return {}
+  try {
+    const stored = window.localStorage.getItem(columnAliasStorageKey(fingerprint))
+    return stored ? (JSON.parse(stored) as ColumnAliases) : {}
+  } catch (error) {
+    console.error("Could not load column aliases:", error)
+    return {}
+  }
+}
+
+// Store the aliases of a workbook in the browser
+export const saveColumnAliases = (fingerprint: string, aliases: ColumnAliases) => {
+  if (typeof window === "undefined") return
+  try {
+    window.localStorage.setItem(columnAliasStorageKey(fingerprint), JSON.stringify(aliases))
+  } catch (error) {
+    console.error("Could not save column aliases:", error)
+  }
+}
+
+// Phrases that give a column another name, followed by the column and the new name
+const aliasCommandPhrases = [
+  "call the column",
+  "call column",
+  "name the column",
+  "name column",
+  "nenne die spalte",
+  "nenne spalte",
+  "benenne die spalte",
+  "benenne spalte",
+]
+
+// Recognize "call column Net_Rev_EUR revenue" / "nenne Spalte Net_Rev_EUR Umsatz"
+const parseAliasCommand = (
+  query: string,
+  columns: string[],
+  aliases: ColumnAliases,
+): { column: string; alias: string } | null => {
+  const text = query
+    .trim()
+    .replace(/^(?:please|bitte)\s+/i, "")
+    .replace(/[.!?]+$/, "")
+  const phrase = aliasCommandPhrases.find((candidate) => text.toLowerCase().startsWith(`${candidate} `))
+  if (!phrase) return null
+
+  // The column comes first; everything after it is the new name
+  const rest = text.slice(phrase.length).trim()
+  const columnMatch = resolveColumnMentions(rest, columns, aliases).find((match) => match.start === 0)
+  if (!columnMatch) return null
+
+  const alias = rest
+    .slice(columnMatch.end)
+    .replace(/^[\s,:]+(?:(?:as|also|too|auch|als|in)\s+)?/i, "")
+    .replace(/^["'„“]+|["'„“”]+$/g, "")
+    .trim()
+  return alias ? { column: columnMatch.column, alias } : null
+}
+
+// Add a spoken alias to the aliases of the workbook
+const addColumnAlias = (
+  command: { column: string; alias: string },
+  aliases: ColumnAliases,
+  language: Language,
+): QueryResult => {
+  const existing = aliases[command.column] || []
+  const isKnown = existing.some((alias) => alias.toLowerCase() === command.alias.toLowerCase())
+  const updatedAliases = isKnown ? aliases : { ...aliases, [command.column]: [...existing, command.alias] }
+
+  return {
+    answer:
+      language === "de-DE"
+        ? `Ab jetzt steht „${command.alias}“ für die Spalte ${command.column}.`
+        : `From now on "${command.alias}" means the column ${command.column}.`,
+    explanation:
+      language === "de-DE"
+        ? `Namen für ${command.column}: ${updatedAliases[command.column].join(", ")}. Die Namen werden für diese Arbeitsmappe im Browser gespeichert.`
+        : `Names for ${command.column}: ${updatedAliases[command.column].join(", ")}. The names are stored in the browser for this workbook.`,
+    data: null,
+    followUpQuestions: [
+      language === "de-DE" ? `Was ist die Summe von ${command.alias}?` : `What is the sum of ${command.alias}?`,
+    ],
+    confidence: 0.95,
+    usedColumns: [command.column],
+    operation: "alias",
+    aliases: updatedAliases,
+  }
+}
+
+// Say which spoken words were taken for which column when the name wasn't heard exactly,
+// and lower the confidence by the weakest of these matches
+const describeColumnMatches = (result: QueryResult, plan: QueryPlan, language: Language): QueryResult => {
+  const guessedMatches = plan.columnMatches.filter(
+    (match) => match.score < 1 && result.usedColumns.includes(match.column),
+  )
+  if (guessedMatches.length === 0) return result
+
+  const notes = guessedMatches.map((match) => {
+    const percentage = Math.round(match.score * 100)
+    return language === "de-DE"
+      ? `Ich habe „${match.heard}“ als Spalte ${match.column} verstanden (Übereinstimmung ${percentage} %).`
+      : `I understood "${match.heard}" as the column ${match.column} (match ${percentage}%).`
+  })
+
+  return {
+    ...result,
+    explanation: `${notes.join(" ")} ${result.explanation}`.trim(),
+    confidence: Math.round(result.confidence * Math.min(...guessedMatches.map((match) => match.score)) * 100) / 100,
+  }
+}
+
+// Tell how many cells of the numeric columns used couldn't be read as numbers and were skipped
+const describeUnparseableCells = (
+  result: QueryResult,
+  rows: any[],
+  decimalSeparators: DecimalSeparators,
+  language: Language,
+): QueryResult => {
+  const notes = result.usedColumns
+    .filter((column) => isNumericColumn(rows, column, decimalSeparators))
+    .map((column) => ({ column, cells: findUnparseableCells(rows, column, decimalSeparators) }))
+    .filter(({ cells }) => cells.length > 0)
+    .map(({ column, cells }) =>
+      language === "de-DE"
+        ? `${cells.length} ${cells.length === 1 ? "Zelle" : "Zellen"} in ${column} ${cells.length === 1 ? "war keine Zahl und wurde" : "waren keine Zahlen und wurden"} übersprungen (z.B. „${cells[0]}“).`
+        : `${cells.length} ${cells.length === 1 ? "cell" : "cells"} in ${column} could not be read as ${cells.length === 1 ? "a number and was" : "numbers and were"} skipped (e.g. "${cells[0]}").`,
+    )
+  if (notes.length === 0) return result
+
+  return { ...result, explanation: `${result.explanation} ${notes.join(" ")}`.trim() }
+}
+
+// Parse a query into a plan: the operation, its target columns, row filters, grouping and ranking
+export const parseQueryPlan = (
+  spokenQuery: string,
+  excelData: ExcelData,
+  previousPlan: QueryPlan | null = null,
+  aliases: ColumnAliases = {},
+  language: Language = null,
+): QueryPlan => {
+  const rows = excelData.sheets[excelData.activeSheet]
+  const columns = rows.length > 0 ? Object.keys(rows[0]) : []
+  const decimalSeparators = getColumnDecimalSeparators(rows, language)
+
+  // A time range ("last quarter", "seit Januar") is taken out of the query, so its numbers aren't read as values
+  const foundDateExpression = parseDateExpression(spokenQuery)
+  const dateExpression =
+    foundDateExpression &&
+    !isNumericYearRange(foundDateExpression, spokenQuery, rows, columns, decimalSeparators, aliases)
+      ? foundDateExpression
+      : null
+  const query = dateExpression
+    ? `${spokenQuery.slice(0, dateExpression.index)} ${spokenQuery.slice(dateExpression.index + dateExpression.text.length)}`
+        .replace(/\s+/g, " ")
+        .trim()
+    : spokenQuery
+  const lowerCaseQuery = query.toLowerCase()
+
+  // Follow-ups continue the previous question on the same sheet
+  const previous = previousPlan && previousPlan.sheet === excelData.activeSheet ? previousPlan : null
+  const isFollowUp = previous !== null && isFollowUpQuery(query)
+  const refersToPrevious =
+    previous !== null && previousColumnReferences.some((reference) => containsPhrase(lowerCaseQuery, reference))
+
+  // Conditions ("where status is paid") can be read before the operation is known
+  const { conditions: markedConditions, targetText } = parseWhereConditions(
+    query,
+    rows,
+    columns,
+    decimalSeparators,
+    aliases,
+  )
+
+  // Follow-ups can name a value without a marker ("what about Munich?", "und Hamburg?"); like a
+  // condition with a marker, it replaces the inherited condition on its column
+  const namedValueConditions: FilterCondition[] = []
+  if (isFollowUp) {
+    for (const mention of findSegmentMentions(query, rows, columns, decimalSeparators)) {
+      if (
+        isNumericColumn(rows, mention.column, decimalSeparators) ||
+        columns.some((column) => column.toLowerCase() === mention.value.toLowerCase()) ||
+        [...markedConditions, ...namedValueConditions].some((condition) => condition.column === mention.column)
+      ) {
+        continue
+      }
+      namedValueConditions.push({
+        column: mention.column,
+        operator: "equals",
+        value: mention.value,
+        negated: [...exclusionWords, ...negationWords].some((word) =>
+          containsPhrase(lowerCaseQuery.slice(0, mention.start), word),
+        ),
+      })
+    }
+  }
+  const whereConditions = [...markedConditions, ...namedValueConditions]
+
+  // Basic intent recognition; "und für Berlin?" keeps the previous operation, also when the column it
+  // names contains a keyword ("and Quantity?" after an average is no count)
+  const recognizedIntent = recognizeIntent(
+    lowerCaseQuery,
+    [
+      ...columns,
+      ...whereConditions
+        .filter((condition) => typeof condition.value === "string")
+        .map((condition) => String(condition.value)),
+    ],
+    !isFollowUp || previous.operation === "unknown",
+  )
+  // "and the average?" after a comparison changes what is compared, not the operation
+  const changesComparedAggregation =
+    isFollowUp &&
+    previous.operation === "compare" &&
+    aggregationOperations.includes(recognizedIntent as AggregationOperation)
+  const inheritsOperation =
+    isFollowUp &&
+    (changesComparedAggregation ||
+      ((recognizedIntent === "unknown" || recognizedIntent === "search") && previous.operation !== "unknown"))
+  let operation = inheritsOperation ? previous.operation : recognizedIntent
+
+  // A search for nothing but the values of its conditions ("show rows where price is over 200") or for
+  // a time range alone ("rows from last year") lists those rows
+  if (
+    (operation === "search" || operation === "unknown") &&
+    !inheritsOperation &&
+    (whereConditions.length > 0 || dateExpression)
+  ) {
+    const request = parseSearchRequest(query, columns, aliases)
+    if (!request || whereConditions.some((condition) => String(condition.value) === request.value)) {
+      operation = "filter"
+    }
+  }
+
+  // "sum and average of revenue" asks for several operations at once
+  const mentionedOperations = findMentionedOperations(lowerCaseQuery)
+  const combinableIntents = [...Object.keys(operationKeywords), "unknown", "search"]
+  const operations = inheritsOperation
+    ? previous.operations
+    : mentionedOperations.length > 1 && combinableIntents.includes(recognizedIntent)
+      ? mentionedOperations
+      : [operation]
+  if (operations.length > 1) operation = "multi"
+
+  // Aggregations can be split into groups ("average price by category"); in a ranking, "by" names
+  // the column to rank by ("top 3 cities by revenue")
+  let groupBy = extractGroupByColumn(query, columns, aliases)
+  const rankedBy = operation === "rank" ? groupBy : null
+  if (operation === "rank") groupBy = null
+  const inheritsGroupBy = isFollowUp && operation !== "rank" && !groupBy && previous.groupBy !== null
+  if (inheritsGroupBy) groupBy = previous.groupBy
+
+  // A comparison names its two segments ("Berlin vs Munich"); a follow-up compares the same ones
+  const namedSegments = operation === "compare" ? findComparedSegments(query, rows, columns, decimalSeparators) : []
+  const segments =
+    namedSegments.length < 2 && inheritsOperation && previous.operation === "compare"
+      ? previous.segments
+      : namedSegments
+
+  // Filter queries consist of conditions; elsewhere conditions scope the calculation
+  // ("sum of amount where status is paid"), except for the compared segments.
+  // Follow-ups keep the previous conditions unless they name a new value for the same column.
+  const filterConditions = operation === "filter" ? parseFilterConditions(query, rows, columns, aliases) : []
+  const queryConditions = (filterConditions.length > 0 ? filterConditions : whereConditions).filter(
+    (condition) =>
+      !segments.some(
+        (segment) =>
+          segment.column === condition.column && segment.value.toLowerCase() === String(condition.value).toLowerCase(),
+      ),
+  )
+  const inheritedFilters = isFollowUp
+    ? previous.filters.filter((filter) => !queryConditions.some((condition) => condition.column === filter.column))
+    : []
+  const filters = [...inheritedFilters, ...queryConditions]
+
+  // Target columns are named before the conditions, or anywhere if there are none
+  const conditionColumns = filters.map((condition) => condition.column)
+  const targetColumns = extractColumns(targetText, columns, aliases)
+  const namedTargets =
+    targetColumns.length > 0
+      ? targetColumns
+      : extractColumns(query, columns, aliases).filter((column) => !conditionColumns.includes(column))
+
+  // "and the maximum?" or "the sum of it" refers to the columns of the previous question
+  const inheritedTargets =
+    (isFollowUp || refersToPrevious) && namedTargets.filter((column) => column !== groupBy).length === 0
+      ? previous.targets.filter((column) => columns.includes(column) && column !== previous.groupBy)
+      : []
+  const targets = [...namedTargets, ...inheritedTargets]
+
+  // The range applies to the date column the query names, or else the first one of the sheet
+  const inheritsDateRange = isFollowUp && !dateExpression && previous.dateRange !== null
+  const dateRange: DateRange | null = dateExpression
+    ? {
+        column: findDateColumn(rows, columns, targets),
+        start: dateExpression.start,
+        end: dateExpression.end,
+        text: dateExpression.text,
+      }
+    : inheritsDateRange
+      ? previous.dateRange
+      : null
+
+  // Rankings carry their direction and size; a follow-up ranking keeps the previous ones
+  let sort: QueryPlan["sort"] = null
+  let limit: number | null = null
+  let offset = 0
+  if (operation === "rank") {
+    const ranking =
+      parseRankingRequest(lowerCaseQuery) ||
+      (inheritsOperation && previous.sort
+        ? { limit: previous.limit || 5, descending: previous.sort.direction === "desc", offset: previous.offset }
+        : { limit: 5, descending: true, offset: 0 })
+    sort = {
+      column:
+        (rankedBy && isNumericColumn(rows, rankedBy, decimalSeparators) ? rankedBy : null) ||
+        targets.find((column) => isNumericColumn(rows, column, decimalSeparators)) ||
+        null,
+      direction: ranking.descending ? "desc" : "asc",
+    }
+    limit = ranking.limit
+    offset = ranking.offset
+  }
+
+  // Settings of single operations; a follow-up of the same operation keeps those it doesn't name again
+  const kept = inheritsOperation ? previous : null
+  const percentile = extractPercentile(query) ?? kept?.percentile ?? null
+  const binRule = /sturges/.test(lowerCaseQuery) ? "sturges" : kept?.binRule || "freedman-diaconis"
+  const granularity = extractGranularity(query) || kept?.granularity || null
+  const aggregation = extractAggregation(query) || kept?.aggregation || null
+  const correlationMatrix =
+    /matrix|all columns|alle spalten|which columns|welche spalten|other columns|andere spalten/.test(lowerCaseQuery) ||
+    kept?.correlationMatrix ||
+    false
+  const search =
+    operation === "search" || operation === "unknown"
+      ? parseSearchRequest(query, columns, aliases) || kept?.search || null
+      : null
+
+  return {
+    operation,
+    operations,
+    targets,
+    filters,
+    groupBy,
+    sort,
+    limit,
+    offset,
+    sheet: excelData.activeSheet,
+    text: query,
+    columnMatches: resolveColumnMentions(query, columns, aliases),
+    dateRange,
+    percentile,
+    binRule,
+    granularity,
+    aggregation,
+    segments,
+    correlationMatrix,
+    search,
+    inherited: {
+      operation: inheritsOperation,
+      targets: inheritedTargets,
+      filters: inheritedFilters,
+      groupBy: inheritsGroupBy,
+      dateRange: inheritsDateRange,
+    },
+  }
+}
+
+// Describe a plan in one line for the UI, e.g. "average(Price) where City is Berlin, by Region"
+export const describeQueryPlan = (plan: QueryPlan, language: Language): string => {
+  const targets = plan.targets.filter((column) => column !== plan.groupBy)
+  const parts = [`${plan.operations.join(" + ")}(${targets.join(", ")})`]
+  if (plan.filters.length > 0) {
+    const conditionText = plan.filters
+      .map((condition) => describeFilterCondition(condition, language))
+      .join(language === "de-DE" ? " und " : " and ")
+    parts.push(language === "de-DE" ? `wo ${conditionText}` : `where ${conditionText}`)
+  }
+  if (plan.groupBy) parts.push(language === "de-DE" ? `nach ${plan.groupBy}` : `by ${plan.groupBy}`)
+  if (plan.dateRange?.column) parts.push(`${plan.dateRange.column} ${formatDateRange(plan.dateRange, language)}`)
+  if (plan.sort) {
+    const direction =
+      language === "de-DE"
+        ? plan.sort.direction === "desc"
+          ? "absteigend"
+          : "aufsteigend"
+        : plan.sort.direction === "desc"
+          ? "descending"
+          : "ascending"
+    parts.push(`${plan.sort.column ? `${plan.sort.column} ` : ""}${direction}`)
+  }
+  if (plan.limit) parts.push(language === "de-DE" ? `Limit ${plan.limit}` : `limit ${plan.limit}`)
+  if (plan.offset) parts.push(language === "de-DE" ? `ab Platz ${plan.offset + 1}` : `from rank ${plan.offset + 1}`)
+  parts.push(language === "de-DE" ? `Blatt ${plan.sheet}` : `sheet ${plan.sheet}`)
+  return parts.join(" · ")
+}
+
+// Run a query plan against the workbook. The analysis scope limits the rows every calculation sees.
+export const executeQueryPlan = (
+  plan: QueryPlan,
+  excelData: ExcelData,
+  language: Language,
+  scope: FilterCondition[] = [],
+): QueryResult => {
+  const sheetRows = excelData.sheets[plan.sheet] || []
+  const columns = sheetRows.length > 0 ? Object.keys(sheetRows[0]) : []
+  // Numbers are read in the format of their column in the whole sheet, also after rows are filtered out
+  const decimalSeparators = getColumnDecimalSeparators(sheetRows, language)
+
+  // Conditions of the scope on columns this sheet doesn't have are skipped
+  const activeScope = scope.filter((condition) => columns.includes(condition.column))
+  const scopedRows =
+    activeScope.length > 0
+      ? sheetRows.filter((row) => matchesAnalysisScope(row, activeScope, decimalSeparators))
+      : sheetRows
+
+  // A time range limits the rows for every operation, search included
+  const { dateRange } = plan
+  const currentSheet =
+    dateRange && dateRange.column
+      ? scopedRows.filter((row) => isWithinDateRange(row[dateRange.column as string], dateRange))
+      : scopedRows
+  const filteredSheet =
+    plan.filters.length > 0
+      ? currentSheet.filter((row) =>
+          plan.filters.every((condition) => matchesFilterCondition(row, condition, decimalSeparators)),
+        )
+      : currentSheet
+  const valueColumns = plan.targets.filter((column) => column !== plan.groupBy)
+
+  // One operation on several numeric columns ("average of price and quantity") is answered for each of them
+  const answersEachColumn =
+    plan.operations.length === 1 &&
+    plan.operations[0] in operationKeywords &&
+    valueColumns.filter((column) => isNumericColumn(filteredSheet, column, decimalSeparators)).length > 1
+
+  let result: QueryResult
+
+  switch (answersEachColumn ? "multi" : plan.operation) {
+    case "average":
+      result = plan.groupBy
+        ? calculateGroupedAggregation("average", filteredSheet, valueColumns, plan.groupBy, decimalSeparators, language)
+        : calculateAverage(filteredSheet, valueColumns, decimalSeparators, language)
+      break
+    case "sum":
+      result = plan.groupBy
+        ? calculateGroupedAggregation("sum", filteredSheet, valueColumns, plan.groupBy, decimalSeparators, language)
+        : calculateSum(filteredSheet, valueColumns, decimalSeparators, language)
+      break
+    case "count":
+      result = plan.groupBy
+        ? calculateGroupedAggregation("count", filteredSheet, valueColumns, plan.groupBy, decimalSeparators, language)
+        : countValues(filteredSheet, valueColumns, language)
+      break
+    case "min":
+      result = plan.groupBy
+        ? calculateGroupedAggregation("min", filteredSheet, valueColumns, plan.groupBy, decimalSeparators, language)
+        : findMinimum(filteredSheet, valueColumns, decimalSeparators, language)
+      break
+    case "max":
+      result = plan.groupBy
+        ? calculateGroupedAggregation("max", filteredSheet, valueColumns, plan.groupBy, decimalSeparators, language)
+        : findMaximum(filteredSheet, valueColumns, decimalSeparators, language)
+      break
+    case "median":
+    case "mode":
+    case "stddev":
+    case "variance":
+    case "quartiles":
+    case "iqr":
+    case "percentile":
+      result = calculateDescriptiveStatistic(
+        plan.operation as DescriptiveStatistic,
+        plan.percentile,
+        filteredSheet,
+        valueColumns,
+        decimalSeparators,
+        language,
+      )
+      break
+    case "distribution":
+      result = analyzeDistribution(plan.binRule, filteredSheet, valueColumns, decimalSeparators, language)
+      break
+    case "share":
+      result = calculateShare(currentSheet, plan.filters, valueColumns, plan.groupBy, decimalSeparators, language)
+      break
+    case "multi":
+      result = calculateMultipleOperations(
+        plan.operations as CombinedOperation[],
+        filteredSheet,
+        valueColumns,
+        plan.groupBy,
+        decimalSeparators,
+        language,
+      )
+      break
+    case "compare":
+      result = compareSegments(
+        plan.segments,
+        plan.aggregation,
+        filteredSheet,
+        plan.targets,
+        decimalSeparators,
+        language,
+      )
+      break
+    case "rank":
+      result = rankRows(
+        { limit: plan.limit || 5, descending: plan.sort?.direction !== "asc", offset: plan.offset },
+        plan.aggregation,
+        filteredSheet,
+        columns,
+        // The sort column is the measure, whatever column is named first
+        plan.sort?.column
+          ? [plan.sort.column, ...plan.targets.filter((column) => column !== plan.sort?.column)]
+          : plan.targets,
+        decimalSeparators,
+        language,
+      )
+      break
+    case "correlation":
+      // Two columns are compared directly, one column or "matrix" correlates against all numeric columns
+      result =
+        valueColumns.length >= 2 && !plan.correlationMatrix
+          ? calculateCorrelation(filteredSheet, valueColumns, decimalSeparators, language)
+          : calculateCorrelationMatrix(filteredSheet, columns, valueColumns[0] || null, decimalSeparators, language)
+      break
+    case "unique":
+      result = findUniqueValues(filteredSheet, plan.targets, language)
+      break
+    case "filter":
+      // A time range alone is the condition the rows are filtered by
+      result =
+        plan.filters.length === 0 && dateRange?.column
+          ? filterRows(
+              [
+                {
+                  column: dateRange.column,
+                  operator: "withinDates",
+                  value: dateRange.text,
+                  dateRange: { start: dateRange.start, end: dateRange.end },
+                  negated: false,
+                },
+              ],
+              scopedRows,
+              decimalSeparators,
+              language,
+            )
+          : filterRows(plan.filters, currentSheet, decimalSeparators, language)
+      break
+    case "trend":
+      result = analyzeTrend(
+        plan.granularity,
+        plan.aggregation,
+        filteredSheet,
+        columns,
+        plan.targets,
+        decimalSeparators,
+        language,
+      )
+      break
+    case "overview":
+      result = getDataOverview(filteredSheet, columns, decimalSeparators, language)
+      break
+    case "search":
+      result = searchForValue(plan.search, filteredSheet, columns, language)
+      break
+    default:
+      // If no specific intent is recognized, try search as a fallback
+      result = searchForValue(plan.search, filteredSheet, columns, language)
+
+      // If search doesn't yield good results, provide a general response
+      if (result.confidence < 0.5) {
+        result = {
+          answer:
+            language === "de-DE"
+              ? "Ich verstehe Ihre Anfrage nicht vollständig. Sie können nach Werten suchen, Zeilen filtern, oder Fragen über Durchschnitt, Summe, Anzahl, Minimum, Maximum oder Korrelation stellen."
+              : "I don't fully understand your query. You can search for values, filter rows, or ask about average, sum, count, minimum, maximum, or correlation.",
+          explanation: "",
+          data: null,
+          followUpQuestions: generateFollowUpQuestions(columns, language),
+          confidence: 0.3,
+          usedColumns: [],
+          operation: "unknown",
+        }
+      }
+  }
+
+  // A time range without rows leaves nothing to calculate or search
+  const rangeIsEmpty = dateRange !== null && dateRange.column !== null && currentSheet.length === 0
+  if (rangeIsEmpty) {
+    const rangeText = formatDateRange(dateRange, language)
+    result = {
+      answer:
+        language === "de-DE"
+          ? `Im Zeitraum „${dateRange.text}“ (${rangeText}) gibt es keine Zeilen in der Spalte ${dateRange.column}.`
+          : `No rows fall into the time range "${dateRange.text}" (${rangeText}) in the ${dateRange.column} column.`,
+      explanation: "",
+      data: null,
+      followUpQuestions: generateFollowUpQuestions(columns, language),
+      confidence: 0.8,
+      usedColumns: [dateRange.column as string],
+      operation: plan.operation,
+    }
+  }
+
+  // Filter queries and shares describe their conditions themselves
+  if (plan.filters.length > 0 && !rangeIsEmpty && !["filter", "share", "unknown"].includes(result.operation)) {
+    result = describeWhereConditions(result, plan.filters, filteredSheet.length, currentSheet.length, language)
+  }
+
+  const numericIntents: string[] = [
+    ...aggregationOperations,
+    ...descriptiveStatistics,
+    "multi",
+    "rank",
+    "distribution",
+    "correlation",
+    "share",
+    "compare",
+    "trend",
+  ]
+  if (numericIntents.includes(plan.operation) && !rangeIsEmpty) {
+    result = describeUnparseableCells(
+      result,
+      plan.operation === "share" ? currentSheet : filteredSheet,
+      decimalSeparators,
+      language,
+    )
+  }
+
+  result = describeInheritedContext(result, plan, language)
+  result = describeColumnMatches(result, plan, language)
+
+  if (dateRange) {
+    const rangeText = formatDateRange(dateRange, language)
+    const rangeExplanation = dateRange.column
+      ? language === "de-DE"
+        ? `Zeitraum „${dateRange.text}“: ${rangeText} in der Spalte ${dateRange.column}, das sind ${currentSheet.length} von ${scopedRows.length} Zeilen.`
+        : `Time range "${dateRange.text}": ${rangeText} in the ${dateRange.column} column, which covers ${currentSheet.length} of ${scopedRows.length} rows.`
+      : language === "de-DE"
+        ? `Ich habe keine Datumsspalte gefunden, deshalb wurde der Zeitraum „${dateRange.text}“ (${rangeText}) nicht angewendet.`
+        : `I found no date column, so the time range "${dateRange.text}" (${rangeText}) was not applied.`
+    result = {
+      ...result,
+      explanation: result.explanation ? `${rangeExplanation} ${result.explanation}` : rangeExplanation,
+    }
+  }
+
+  if (activeScope.length > 0) {
+    const scopeText = activeScope
+      .map((condition) => describeFilterCondition(condition, language))
+      .join(language === "de-DE" ? " und " : " and ")
+    const scopeExplanation =
+      language === "de-DE"
+        ? `Aktiver Filter: Es werden nur die ${scopedRows.length} von ${sheetRows.length} Zeilen berücksichtigt, für die gilt: ${scopeText}.`
+        : `Active filter: only the ${scopedRows.length} of ${sheetRows.length} rows where ${scopeText} are considered.`
+    result = {
+      ...result,
+      explanation: result.explanation ? `${scopeExplanation} ${result.explanation}` : scopeExplanation,
+    }
+  }
+
+  return { ...result, plan }
+}
+
+// Free NLP processing using TensorFlow.js
+export const processQueryWithLocalAI = async (
+  query: string,
+  excelData: ExcelData,
+  language: Language,
+  nlpModel: NLPModel,
+  previousPlan: QueryPlan | null = null,
+  scope: FilterCondition[] = [],
+  aliases: ColumnAliases = {},
+): Promise<QueryResult> => {
+  try {
+    if (!nlpModel.loaded) {
+      throw new Error("NLP model not loaded")
+    }
+
+    const sheetRows = excelData.sheets[excelData.activeSheet]
+    const columns = sheetRows.length > 0 ? Object.keys(sheetRows[0]) : []
+
+    // Speech recognition often writes numbers as words ("forty eight", "drei Komma fünf")
+    const normalizedQuery = normalizeSpokenNumbers(query, language)
+
+    // Alias commands teach the app another name for a column, kept as spoken
+    const aliasCommand = parseAliasCommand(query, columns, aliases)
+    if (aliasCommand) {
+      return addColumnAlias(aliasCommand, aliases, language)
+    }
+
+    // Scope commands change which rows all following queries see
+    const scopeCommand = parseScopeCommand(normalizedQuery)
+    if (scopeCommand) {
+      // Conditions read cells in the number format of their column, like the calculations do
+      const decimalSeparators = getColumnDecimalSeparators(sheetRows, language)
+      return updateAnalysisScope(scopeCommand, scope, sheetRows, columns, decimalSeparators, language, aliases)
+    }
+
+    return executeQueryPlan(
+      parseQueryPlan(normalizedQuery, excelData, previousPlan, aliases, language),
+      excelData,
+      language,
+      scope,
+    )
+  } catch (error) {
+    console.error("Local AI processing error:", error)
+    return {
+      answer:
+        language === "de-DE"
+          ? "Es gab einen Fehler bei der Verarbeitung Ihrer Anfrage."
+          : "There was an error processing your query.",
+      explanation: "",
+      data: null,
+      followUpQuestions: [],
+      confidence: 0,
+      usedColumns: [],
+      operation: "error",
+    }
+  }
+}
+
+// Explicit requests for rows, which stay filters even when they name an aggregation word
+const explicitFilterCues = [
+  "filter",
+  "filtere",
+  "show only",
+  "only show",
+  "only rows",
+  "nur zeilen",
+  "zeige nur",
+  "nur zeigen",
+]
+
+// Enhanced intent recognition. `ignoredPhrases` are column names and condition values, whose
+// words are not operation keywords ("rows where Total is above 200"). Without `keywordsInIgnoredPhrases`
+// they don't count even when nothing else names an operation.
+export const recognizeIntent = (
+  query: string,
+  ignoredPhrases: string[] = [],
+  keywordsInIgnoredPhrases = true,
+): string => {
+  // Define intent patterns with multiple keywords for each intent
+  const intentPatterns = {
+    average: [
+      "average",
+      "mean",
+      "avg",
+      "durchschnitt",
+      "mittelwert",
+      "moyenne",
+      "media",
+      "promedio",
+      "プロmedio",
+      "平均",
+      "what is the average",
+      "calculate the average",
+      "find the mean",
+      "show me the average",
+    ],
+    sum: [
+      "sum",
+      "total",
+      "add",
+      "summe",
+      "gesamt",
+      "somme",
+      "total",
+      "suma",
+      "合計",
+      "总和",
+      "what is the sum",
+      "calculate the sum",
+      "add up",
+      "total of",
+      "sum of",
+    ],
+    count: [
+      "count",
+      "how many",
+      "number of",
+      "anzahl",
+      "wie viele",
+      "combien",
+      "cuántos",
+      "quanti",
+      "数える",
+      "计数",
+      "count the",
+      "how many are there",
+      "number of items",
+      "count all",
+    ],
+    min: [
+      "minimum",
+      "min",
+      "smallest",
+      "lowest",
+      "kleinste",
+      "minimum",
+      "mínimo",
+      "minimo",
+      "最小",
+      "最小值",
+      "what is the minimum",
+      "find the lowest",
+      "what's the smallest",
+      "show me the minimum",
+    ],
+    max: [
+      "maximum",
+      "max",
+      "largest",
+      "highest",
+      "größte",
+      "maximum",
+      "máximo",
+      "massimo",
+      "最大",
+      "最大值",
+      "what is the maximum",
+      "find the highest",
+      "what's the largest",
+      "show me the maximum",
+    ],
+    median: [
+      "median",
+      "middle value",
+      "zentralwert",
+      "médiane",
+      "mediana",
+      "中央値",
+      "中位数",
+      "what is the median",
+      "calculate the median",
+      "wie hoch ist der median",
+    ],
+    mode: [
+      "mode",
+      "most common",
+      "most frequent",
+      "modus",
+      "modalwert",
+      "häufigste",
+      "am häufigsten",
+      "最頻値",
+      "众数",
+      "what is the most common",
+      "most common value",
+      "most frequent value",
+      "was ist der häufigste",
+    ],
+    stddev: [
+      "standard deviation",
+      "std dev",
+      "stddev",
+      "standardabweichung",
+      "écart type",
+      "desviación estándar",
+      "deviazione standard",
+      "標準偏差",
+      "标准差",
+      "what is the standard deviation",
+      "how spread out",
+    ],
+    variance: [
+      "variance",
+      "varianz",
+      "variación",
+      "varianza",
+      "分散",
+      "方差",
+      "what is the variance",
+      "calculate the variance",
+    ],
+    iqr: [
+      "interquartile range",
+      "interquartile",
+      "quartile range",
+      "iqr",
+      "interquartilsabstand",
+      "quartilsabstand",
+      "what is the interquartile range",
+    ],
+    quartiles: ["quartile", "quartil", "cuartil", "四分位", "what are the quartiles", "show me the quartiles"],
+    percentile: [
+      "percentile",
+      "perzentil",
+      "quantile",
+      "quantil",
+      "percentil",
+      "百分位",
+      "th percentile",
+      "what is the percentile",
+    ],
+    share: [
+      "percentage",
+      "percent",
+      "share",
+      "proportion",
+      "ratio",
+      "fraction",
+      "anteil",
+      "prozent",
+      "prozentsatz",
+      "pourcentage",
+      "porcentaje",
+      "percentuale",
+      "割合",
+      "百分比",
+      "what percentage of",
+      "what share of",
+      "how many percent",
+      "welcher anteil",
+      "wie viel prozent",
+      "entfällt auf",
+    ],
+    distribution: [
+      "distribution",
+      "distributed",
+      "histogram",
+      "frequency",
+      "verteilung",
+      "verteilt",
+      "histogramm",
+      "häufigkeit",
+      "répartition",
+      "distribución",
+      "distribuzione",
+      "分布",
+      "what is the distribution",
+      "distribution of values",
+      "histogram of",
+      "how are * distributed",
+      "wie ist die verteilung",
+      "wie sind * verteilt",
+    ],
+    compare: [
+      "compare",
+      "comparison",
+      "versus",
+      "vs",
+      "vergleiche",
+      "vergleich",
+      "vergleichen",
+      "gegenüber",
+      "comparer",
+      "comparar",
+      "confrontare",
+      "比較",
+      "比较",
+      "compared to",
+      "compared with",
+      "difference between",
+      "im vergleich zu",
+      "unterschied zwischen",
+    ],
+    correlation: [
+      "correlation",
+      "relationship",
+      "relates to",
+      "korrelation",
+      "zusammenhang",
+      "corrélation",
+      "correlación",
+      "correlazione",
+      "相関",
+      "相关性",
+      "how does * relate to",
+      "relationship between",
+      "correlation between",
+      "how * correlates with",
+      "correlate",
+      "korrelieren",
+      "korreliert",
+      "correlation matrix",
+      "korrelationsmatrix",
+      "which columns correlate",
+    ],
+    unique: [
+      "unique",
+      "distinct",
+      "different",
+      "einzigartig",
+      "unterschiedlich",
+      "unique",
+      "único",
+      "unico",
+      "ユニーク",
+      "唯一",
+      "unique values",
+      "distinct values",
+      "list of unique",
+      "all different",
+      "show me unique",
+    ],
+    overview: [
+      "overview",
+      "summary",
+      "describe",
+      "überblick",
+      "zusammenfassung",
+      "aperçu",
+      "resumen",
+      "panoramica",
+      "概要",
+      "概述",
+      "give me an overview",
+      "summarize the data",
+      "describe the dataset",
+      "what's in the data",
+    ],
+    search: [
+      "is",
+      "find",
+      "search",
+      "look for",
+      "has",
+      "contains",
+      "where",
+      "ist",
+      "finde",
+      "suche",
+      "enthält",
+      "wo",
+      "rechercher",
+      "buscar",
+      "cercare",
+      "検索",
+      "搜索",
+      "find records where",
+      "search for rows with",
+      "look for entries",
+    ],
+    filter: [
+      "filter",
+      "only show",
+      "filtern",
+      "nur zeigen",
+      "filtrer",
+      "filtrar",
+      "filtrare",
+      "フィルター",
+      "筛选",
+      "filter by",
+      "only display",
+      "show only",
+      "exclude",
+      "rows where",
+      "greater than",
+      "less than",
+      "more than",
+      "at least",
+      "at most",
+      "between",
+      "zeilen mit",
+      "größer als",
+      "kleiner als",
+      "mehr als",
+      "weniger als",
+      "mindestens",
+      "höchstens",
+      "zwischen",
+      "ausschließen",
+    ],
+    trend: [
+      "trend",
+      "pattern",
+      "over time",
+      "change",
+      "trend",
+      "muster",
+      "im laufe der zeit",
+      "änderung",
+      "tendance",
+      "tendencia",
+      "andamento",
+      "トレンド",
+      "趋势",
+      "show me the trend",
+      "how has * changed",
+      "pattern of",
+    ],
+  }
+
+  // Convert query to lowercase for case-insensitive matching, without column names and condition
+  // values, so that "standard deviation of Quantity" doesn't count "quanti" as a keyword
+  const fullQuery = query.toLowerCase()
+  const maskedQuery = [...ignoredPhrases]
+    .sort((a, b) => b.length - a.length)
+    .reduce((text, phrase) => text.replace(wholeWordPattern(phrase.toLowerCase(), "gu"), " "), fullQuery)
+
+  // Keywords match as whole words, so that "is" doesn't count inside "distribution" or "add" inside
+  // "address". Longer ones may also begin or end a compound ("Gesamtsumme", "Preisverteilung").
+  const containsKeyword = (text: string, keyword: string) => {
+    if (keyword.length < 5 || keyword.includes(" ")) return containsPhrase(text, keyword)
+    const escaped = escapeRegExp(keyword)
+    return new RegExp(`(?<![\\p{L}\\p{N}])${escaped}|${escaped}(?![\\p{L}\\p{N}])`, "u").test(text)
+  }
+
+  // Scoring system for intent matching
+  const scoreIntents = (text: string) => {
+    let bestIntent = "unknown"
+    let highestScore = 0
+
+    for (const [intent, patterns] of Object.entries(intentPatterns)) {
+      // Count how many patterns match in the query
+      let matchCount = 0
+      for (const pattern of patterns) {
+        // Use wildcard pattern matching if pattern contains *
+        if (pattern.includes("*")) {
+          const parts = pattern
+            .split("*")
+            .map((part) => part.trim())
+            .filter((part) => part.length > 0)
+          if (parts.length > 0 && parts.every((part) => containsKeyword(text, part))) {
+            matchCount += 1
+          }
+        }
+        // Otherwise use a keyword check
+        else if (containsKeyword(text, pattern)) {
+          matchCount += 1
+        }
+      }
+
+      // Calculate score based on number of matches and pattern specificity
+      const score = matchCount * (patterns.some((p) => p.includes(" ")) ? 1.5 : 1)
+
+      if (score > highestScore) {
+        highestScore = score
+        bestIntent = intent
+      }
+    }
+
+    return { bestIntent, highestScore }
+  }
+
+  // A keyword that only occurs as a column name ("what is the total amount" with a Total column)
+  // still counts when nothing else names an operation
+  let lowerQuery = maskedQuery
+  let { bestIntent, highestScore } = scoreIntents(maskedQuery)
+  if (
+    keywordsInIgnoredPhrases &&
+    (bestIntent === "unknown" || bestIntent === "search") &&
+    maskedQuery !== fullQuery
+  ) {
+    const unmasked = scoreIntents(fullQuery)
+    if (unmasked.bestIntent !== "unknown" && unmasked.bestIntent !== "search") {
+      lowerQuery = fullQuery
+      ;({ bestIntent, highestScore } = unmasked)
+    }
+  }
+
+  // "media" (Spanish and Italian for average) is also part of "median"
+  if (bestIntent === "average" && containsPhrase(lowerQuery, "median")) return "median"
+
+  // Ranking requests ("top 5", "the three lowest") share their keywords with min and max
+  if (parseRankingRequest(lowerQuery)) return "rank"
+
+  // Comparisons usually name an aggregation too ("Berlin vs Munich average price")
+  if (bestIntent !== "correlation" && intentPatterns.compare.some((pattern) => containsPhrase(lowerQuery, pattern))) {
+    return "compare"
+  }
+
+  // Aggregations, statistics, shares and trends with a condition ("sum of amount where status is paid",
+  // "median of price where city is Berlin") also match search and filter keywords, but the calculation
+  // is what was asked for. Whole words only, so "address" does not count as "add".
+  if (
+    (bestIntent === "search" || bestIntent === "filter") &&
+    !explicitFilterCues.some((cue) => containsPhrase(lowerQuery, cue))
+  ) {
+    const scopedIntents = [...aggregationOperations, ...descriptiveStatistics, "share", "trend"] as const
+    const scopedIntent = scopedIntents.find((operation) =>
+      intentPatterns[operation].some((pattern) => !pattern.includes("*") && containsPhrase(maskedQuery, pattern)),
+    )
+    if (scopedIntent) return scopedIntent
+  }
+
+  // If confidence is too low, default to search or unknown
+  return highestScore > 0 ? bestIntent : "unknown"
+}
+
+// Read what a query searches for: the first value (number, ID, quoted text), the column it names
+// or one matching a common keyword such as "id" or "name", and whether a negation comes before the value
+const parseSearchRequest = (query: string, columns: string[], aliases: ColumnAliases = {}): SearchRequest | null => {
+  const searchValues = extractSearchValues(query)
+  if (searchValues.length === 0) return null
+
+  const namedColumn = resolveColumnMentions(query, columns, aliases).find((match) => match.score === 1)
+  let targetColumn = namedColumn ? namedColumn.column : ""
+  const columnKeywords = targetColumn ? [] : extractColumnKeywords(query)
+
+  // Try to match column keywords with actual column names
+  for (const keyword of columnKeywords) {
+    for (const column of columns) {
+      if (column.toLowerCase().includes(keyword.toLowerCase())) {
+        targetColumn = column
+        break
+      }
+    }
+    if (targetColumn) break
+  }
+
+  // A negation before the value ("rows without 1234", "nicht 1234") asks for the other rows
+  const searchValue = searchValues[0]
+  const lowerCaseQuery = query.toLowerCase()
+  const valueIndex = lowerCaseQuery.indexOf(String(searchValue).toLowerCase())
+  const negated =
+    valueIndex !== -1 &&
+    [...exclusionWords, ...negationWords].some((word) => containsPhrase(lowerCaseQuery.slice(0, valueIndex), word))
+
+  return { value: searchValue, column: targetColumn || null, negated }
+}
+
+// Add a new function to search for values in the data
+const searchForValue = (
+  search: SearchRequest | null,
+  data: any[],
+  columns: string[],
+  language: Language,
+): QueryResult => {
+  if (!search) {
+    return {
+      answer:
+        language === "de-DE"
+          ? "Ich konnte keinen Suchwert in Ihrer Anfrage erkennen. Bitte geben Sie an, wonach Sie suchen möchten."
+          : "I couldn't identify a search value in your query. Please specify what you're looking for.",
+      explanation: "",
+      data: null,
+      followUpQuestions: [],
+      confidence: 0.5,
+      usedColumns: [],
+      operation: "search",
+    }
+  }
+
+  // If no specific column is identified, search across all columns
+  const searchResults: string[] = []
+  const matchingRows: any[] = []
+  const { value: searchValue, negated } = search
+  const targetColumn = search.column || ""
+
+  if (negated) {
+    const searchColumns = targetColumn ? [targetColumn] : columns
+    const remainingRows = data.filter(
+      (row) => !searchColumns.some((column) => String(row[column]).toLowerCase() === String(searchValue).toLowerCase()),
+    )
+    const excludedCount = data.length - remainingRows.length
+    const location = targetColumn
+      ? language === "de-DE"
+        ? `der Spalte "${targetColumn}"`
+        : `the "${targetColumn}" column`
+      : language === "de-DE"
+        ? "allen Spalten"
+        : "all columns"
+
+    return {
+      answer:
+        language === "de-DE"
+          ? `${remainingRows.length} von ${data.length} Zeilen enthalten ${searchValue} nicht.`
+          : `${remainingRows.length} of ${data.length} rows don't contain ${searchValue}.`,
+      explanation:
+        language === "de-DE"
+          ? `Ich habe nach "${searchValue}" in ${location} gesucht. Ausgeschlossen wurden die ${excludedCount} Zeilen, die den Wert enthalten.`
+          : `I searched for "${searchValue}" in ${location}. Excluded were the ${excludedCount} rows that contain the value.`,
+      data: remainingRows.slice(0, 10),
+      followUpQuestions: generateSearchFollowUpQuestions(searchValue, remainingRows, columns, language),
+      confidence: 0.85,
+      usedColumns: targetColumn ? [targetColumn] : [],
+      operation: "search",
+    }
+  }
+
+  if (targetColumn) {
+    // Search in the specific column
+    for (const row of data) {
+      const cellValue = String(row[targetColumn]).toLowerCase()
+      if (cellValue === String(searchValue).toLowerCase()) {
+        matchingRows.push(row)
+      }
+    }
+  } else {
+    // Search across all columns
+    for (const row of data) {
+      for (const column of columns) {
+        const cellValue = String(row[column]).toLowerCase()
+        if (cellValue === String(searchValue).toLowerCase()) {
+          matchingRows.push(row)
+          if (!searchResults.includes(column)) {
+            searchResults.push(column)
+          }
+        }
+      }
+    }
+  }
+
+  // Prepare the response
+  if (matchingRows.length > 0) {
+    const foundColumns = targetColumn ? [targetColumn] : searchResults
+
+    return {
+      answer:
+        language === "de-DE"
+          ? `Ja, ${searchValue} wurde in den Daten gefunden. Es gibt ${matchingRows.length} Übereinstimmung(en).`
+          : `Yes, ${searchValue} was found in the data. There are ${matchingRows.length} match(es).`,
+      explanation:
+        language === "de-DE"
+          ? `Ich habe nach "${searchValue}" in ${targetColumn ? `der Spalte "${targetColumn}"` : "allen Spalten"} gesucht und ${matchingRows.length} Übereinstimmung(en) gefunden.`
+          : `I searched for "${searchValue}" in ${targetColumn ? `the "${targetColumn}" column` : "all columns"} and found ${matchingRows.length} match(es).`,
+      data: matchingRows.slice(0, 10),
+      followUpQuestions: generateSearchFollowUpQuestions(searchValue, matchingRows, columns, language),
+      confidence: 0.9,
+      usedColumns: foundColumns,
+      operation: "search",
+    }
+  } else {
+    return {
+      answer:
+        language === "de-DE"
+          ? `Nein, ${searchValue} wurde nicht in den Daten gefunden.`
+          : `No, ${searchValue} was not found in the data.`,
+      explanation:
+        language === "de-DE"
+          ? `Ich habe nach "${searchValue}" in ${targetColumn ? `der Spalte "${targetColumn}"` : "allen Spalten"} gesucht, aber keine Übereinstimmungen gefunden.`
+          : `I searched for "${searchValue}" in ${targetColumn ? `the "${targetColumn}" column` : "all columns"} but found no matches.`,
+      data: null,
+      followUpQuestions: [
+        language === "de-DE" ? "Gib mir einen Überblick über die Daten." : "Give me an overview of the data.",
+        language === "de-DE" ? "Welche Werte gibt es in dieser Spalte?" : "What values exist in this column?",
+        language === "de-DE" ? "Wie viele Einträge gibt es insgesamt?" : "How many entries are there in total?",
+      ],
+      confidence: 0.9,
+      usedColumns: targetColumn ? [targetColumn] : [],
+      operation: "search",
+    }
+  }
+}
+
+// Number words per language. German compounds such as "zweihundertdreiundzwanzig" are split into these parts.
+const numberVocabularies: Record<
+  NumberLanguage,
+  {
+    values: Record<string, number>
+    scales: Record<string, number>
+    articles: string[]
+    connector: string
+    decimalPoint: string
+  }
+> = {
+  "en-US": {
+    values: {
+      zero: 0,
+      one: 1,
+      two: 2,
+      three: 3,
+      four: 4,
+      five: 5,
+      six: 6,
+      seven: 7,
+      eight: 8,
+      nine: 9,
+      ten: 10,
+      eleven: 11,
+      twelve: 12,
+      thirteen: 13,
+      fourteen: 14,
+      fifteen: 15,
+      sixteen: 16,
+      seventeen: 17,
+      eighteen: 18,
+      nineteen: 19,
+      twenty: 20,
+      thirty: 30,
+      forty: 40,
+      fifty: 50,
+      sixty: 60,
+      seventy: 70,
+      eighty: 80,
+      ninety: 90,
+    },
+    scales: { hundred: 100, thousand: 1000, million: 1000000, millions: 1000000, billion: 1000000000 },
+    articles: ["a", "an"],
+    connector: "and",
+    decimalPoint: "point",
+  },
+  "de-DE": {
+    values: {
+      null: 0,
+      ein: 1,
+      eins: 1,
+      zwei: 2,
+      zwo: 2,
+      drei: 3,
+      vier: 4,
+      fünf: 5,
+      sechs: 6,
+      sieben: 7,
+      acht: 8,
+      neun: 9,
+      zehn: 10,
+      elf: 11,
+      zwölf: 12,
+      dreizehn: 13,
+      vierzehn: 14,
+      fünfzehn: 15,
+      sechzehn: 16,
+      siebzehn: 17,
+      achtzehn: 18,
+      neunzehn: 19,
+      zwanzig: 20,
+      dreißig: 30,
+      dreissig: 30,
+      vierzig: 40,
+      fünfzig: 50,
+      sechzig: 60,
+      siebzig: 70,
+      achtzig: 80,
+      neunzig: 90,
+    },
+    scales: {
+      hundert: 100,
+      tausend: 1000,
+      million: 1000000,
+      millionen: 1000000,
+      mio: 1000000,
+      milliarde: 1000000000,
+      milliarden: 1000000000,
+      mrd: 1000000000,
+    },
+    articles: ["ein", "eine", "einer"],
+    connector: "und",
+    decimalPoint: "komma",
+  },
+}
+
+// Ordinals that don't follow the regular pattern: English words, German stems before "-te" ("dritte")
+const irregularOrdinals: Record<NumberLanguage, Record<string, number>> = {
+  "en-US": { first: 1, second: 2, third: 3, fifth: 5, eighth: 8, ninth: 9, twelfth: 12 },
+  "de-DE": { er: 1, drit: 3, sieb: 7, ach: 8 },
+}
+
+// Split a word into number parts: "dreiundzwanzig" gives 3, "und", 20; "forty" gives 40.
+// Returns null if the word isn't entirely made of number words.
+const splitNumberWord = (word: string, language: NumberLanguage): NumberPart[] | null => {
+  const { values, scales, connector } = numberVocabularies[language]
+  if (word === "") return []
+
+  // Longer parts first, so "siebzehn" isn't read as "sieb" + "zehn"
+  const parts = [...Object.keys(values), ...Object.keys(scales), connector].sort((a, b) => b.length - a.length)
+  for (const part of parts) {
+    if (!word.startsWith(part)) continue
+    const rest = splitNumberWord(word.slice(part.length), language)
+    if (rest === null) continue
+
+    const numberPart: NumberPart =
+      part === connector
+        ? { kind: "connector", value: 0 }
+        : part in scales
+          ? { kind: "scale", value: scales[part] }
+          : { kind: "value", value: values[part] }
+    return [numberPart, ...rest]
+  }
+
+  return null
+}
+
+// Read an ordinal such as "third", "twenty-first", "dritte" or "zwanzigsten"
+const parseOrdinalWord = (word: string, language: NumberLanguage): number | null => {
+  const irregular = irregularOrdinals[language]
+  if (language === "en-US" && word in irregular) return irregular[word]
+
+  const stems =
+    language === "de-DE"
+      ? [word.replace(/s?te[nrsm]?$/, ""), word.replace(/te[nrsm]?$/, "")]
+      : [word.replace(/ieth$/, "y"), word.replace(/th$/, "")]
+
+  for (const stem of stems) {
+    if (stem === word || stem === "") continue
+    if (stem in irregular) return irregular[stem]
+    const parts = splitNumberWord(stem, language)
+    if (parts && parts.some((part) => part.kind !== "connector")) return evaluateNumberParts(parts)
+  }
+
+  // Compounds can end in an irregular ordinal: "hundertdritte", "twenty-first"
+  if (language === "de-DE") {
+    for (const [stem, value] of Object.entries(irregular)) {
+      const match = word.match(new RegExp(`^(.+)${stem}te[nrsm]?$`))
+      const parts = match ? splitNumberWord(match[1], language) : null
+      if (parts && parts.length > 0) return evaluateNumberParts(parts) + Number(value)
+    }
+  } else if (word.includes("-")) {
+    const [prefix, suffix] = word.split("-")
+    const base = splitNumberWord(prefix, language)
+    const ordinal = parseOrdinalWord(suffix, language)
+    if (base && ordinal !== null) return evaluateNumberParts(base) + ordinal
+  }
+
+  return null
+}
+
+// Add up number parts: "two hundred twenty three thousand" is 223000
+const evaluateNumberParts = (parts: NumberPart[]): number => {
+  let total = 0
+  let current = 0
+  for (const part of parts) {
+    if (part.kind === "connector") continue
+    if (part.kind === "value") {
+      current += part.value
+    } else if (part.value === 100) {
+      current = (current || 1) * 100
+    } else {
+      total += (current || 1) * part.value
+      current = 0
+    }
+  }
+  return total + current
+}
+
+// Read a single number word in either language ("zwanzig", "fifty", "dreiundzwanzig"), or null
+const parseNumberWord = (word: string): number | null => {
+  for (const language of Object.keys(numberVocabularies) as NumberLanguage[]) {
+    const parts = splitNumberWord(word.toLowerCase(), language)
+    if (parts && parts.some((part) => part.kind !== "connector")) return evaluateNumberParts(parts)
+  }
+  return null
+}
+
+const formatOrdinal = (value: number, language: NumberLanguage): string => {
+  if (language === "de-DE") return `${value}.`
+  const suffix = value % 100 >= 11 && value % 100 <= 13 ? "th" : ["th", "st", "nd", "rd"][value % 10] || "th"
+  return `${value}${suffix}`
+}
+
+// Replace spoken numbers with digits, so searches, thresholds and rankings can use them:
+// "forty eight" → 48, "zweihundertdreiundzwanzig" → 223, "1.5 million" → 1500000,
+// "ID four eight" → ID 48, "three point five" → 3.5, "drei Komma fünf" → 3.5,
+// "one point five million" → 1500000, "third" → 3rd
+const normalizeSpokenNumbers = (text: string, queryLanguage: Language): string => {
+  const language: NumberLanguage = queryLanguage === "de-DE" ? "de-DE" : "en-US"
+  const { scales, articles, connector, decimalPoint } = numberVocabularies[language]
+  const tokens = [...text.matchAll(/\d+(?:[.,]\d+)?|[\p{L}]+(?:-[\p{L}]+)*/gu)].map((match) => ({
+    text: match[0],
+    lower: match[0].toLowerCase(),
+    start: match.index as number,
+    end: (match.index as number) + match[0].length,
+  }))
+  const isScale = (index: number) => tokens[index] !== undefined && tokens[index].lower in scales
+  const isAdjacent = (index: number) => /^[\s-]*$/.test(text.slice(tokens[index - 1].end, tokens[index].start))
+  const wordParts = (index: number) =>
+    tokens[index] && !/^\d/.test(tokens[index].lower)
+      ? splitNumberWord(tokens[index].lower.replace(/-/g, ""), language)
+      : null
+
+  let result = ""
+  let copiedUntil = 0
+  let index = 0
+
+  while (index < tokens.length) {
+    const first = index
+    const chunks: NumberPart[][] = []
+    let parts: NumberPart[] = []
+    let ordinal: number | null = null
+    let decimals = ""
+
+    // Collect the number words that follow each other
+    while (index < tokens.length && (index === first || isAdjacent(index))) {
+      const token = tokens[index]
+      const previous = parts[parts.length - 1]
+
+      if (/^\d/.test(token.lower)) {
+        // Digits only join a magnitude: "1.5 million", "2 Millionen"
+        if (index !== first || !isScale(index + 1)) break
+        parts.push({ kind: "value", value: parseQueryNumber(token.lower) })
+      } else if (articles.includes(token.lower) && index === first && isScale(index + 1)) {
+        parts.push({ kind: "value", value: 1 })
+      } else if (token.lower === connector) {
+        // "and" only continues a number after a magnitude ("one hundred and five"), never "ten and twenty"
+        if (!previous || previous.kind !== "scale" || !wordParts(index + 1)) break
+        parts.push({ kind: "connector", value: 0 })
+      } else {
+        const wordNumber = wordParts(index)
+        if (!wordNumber || !wordNumber.some((part) => part.kind !== "connector")) {
+          ordinal = parseOrdinalWord(token.lower, language)
+          if (ordinal !== null) {
+            // "first 5 rows" and "die ersten zehn" are not numbers
+            const nextIsNumber = wordParts(index + 1) !== null || /^\d/.test(tokens[index + 1]?.lower || "")
+            if (ordinal === 1 && parts.length === 0 && chunks.length === 0 && nextIsNumber) {
+              ordinal = null
+              break
+            }
+            // "per second" and "a second" are a unit of time
+            if (
+              token.lower === "second" &&
+              ["per", "a", "each", "every", "one"].includes(tokens[index - 1]?.lower || "")
+            ) {
+              ordinal = null
+              break
+            }
+            index++
+          }
+          break
+        }
+
+        // "null Werte" are empty cells, not zeros: a German noun after "null" keeps it a word
+        const nextToken = tokens[index + 1]
+        if (
+          token.lower === "null" &&
+          nextToken &&
+          /^\p{Lu}/u.test(nextToken.text) &&
+          nextToken.lower !== decimalPoint
+        ) {
+          break
+        }
+
+        // A word that can't be added starts a new chunk: "four eight" is 48, "twenty twenty four" is 2024
+        const [firstPart] = wordNumber
+        if (firstPart.kind === "value" && previous && previous.kind === "value") {
+          const current = evaluateNumberParts(parts) % 1000
+          if (
+            current === 0 ||
+            (firstPart.value < 10 && current % 10 !== 0) ||
+            (firstPart.value >= 10 && current % 100 !== 0)
+          ) {
+            chunks.push(parts)
+            parts = []
+          }
+        }
+        parts.push(...wordNumber)
+      }
+      index++
+    }
+
+    // Decimals are spoken digit by digit: "three point one four"
+    const hasNumber = chunks.length > 0 || parts.length > 0
+    if (hasNumber && ordinal === null && tokens[index]?.lower === decimalPoint && isAdjacent(index)) {
+      let decimalIndex = index + 1
+      while (decimalIndex < tokens.length && isAdjacent(decimalIndex)) {
+        const digit = wordParts(decimalIndex)
+        if (!digit || digit.length !== 1 || digit[0].kind !== "value" || digit[0].value > 9) break
+        decimals += String(digit[0].value)
+        decimalIndex++
+      }
+      if (decimals) index = decimalIndex
+    }
+
+    // A magnitude after the decimals applies to the whole number: "one point five million" is 1500000
+    let decimalScale = 1
+    if (decimals && isScale(index) && isAdjacent(index)) {
+      decimalScale = scales[tokens[index].lower]
+      index++
+    }
+
+    // A lone "one" or "ein" is more likely a pronoun or an article ("which one", "ein Kunde")
+    const isLoneOne = index === first + 1 && ordinal === null && ["one", "ein"].includes(tokens[first].lower)
+    if ((!hasNumber && ordinal === null) || isLoneOne) {
+      index = Math.max(index, first + 1)
+      continue
+    }
+
+    let replacement = [...chunks, parts]
+      .filter((chunk) => chunk.length > 0)
+      .map((chunk) => String(evaluateNumberParts(chunk)))
+      .join("")
+    if (ordinal !== null) {
+      const base = hasNumber ? Number(replacement) : 0
+      replacement = formatOrdinal(base + ordinal, language)
+    } else if (decimals) {
+      replacement = String(Number((Number(`${replacement}.${decimals}`) * decimalScale).toFixed(decimals.length)))
+    }
+
+    result += text.slice(copiedUntil, tokens[first].start) + replacement
+    copiedUntil = tokens[index - 1].end
+  }
+
+  return result + text.slice(copiedUntil)
+}
+
+// Extract search values from the query
+const extractSearchValues = (query: string): string[] => {
+  const values = []
+
+  // Extract numbers (including those that might be IDs), but not ordinals such as "1st" or "die 2. Zeile"
+  const numberMatches = query.match(/(?<![\d.])\d+(?:\.\d+)?(?!\d|st\b|nd\b|rd\b|th\b|\.\s+\p{L})/gu)
+  if (numberMatches) {
+    values.push(...numberMatches)
+  }
+
+  // Extract potential quoted values
+  const quotedMatches = query.match(/"([^"]*)"|'([^']*)'/g)
+  if (quotedMatches) {
+    values.push(...quotedMatches.map((match) => match.slice(1, -1)))
+  }
+
+  // Extract potential ID values (common patterns like ID123, id-456, etc.)
+  const idMatches = query.match(/[a-zA-Z]+-?\d+/g)
+  if (idMatches) {
+    values.push(...idMatches)
+  }
+
+  return values
+}
+
+// Extract column keywords from the query
+const extractColumnKeywords = (query: string): string[] => {
+  const keywords = []
+
+  // Common column identifiers
+  const columnIdentifiers = [
+    "id",
+    "name",
+    "title",
+    "date",
+    "time",
+    "price",
+    "cost",
+    "value",
+    "number",
+    "email",
+    "phone",
+    "address",
+    "city",
+    "state",
+    "country",
+    "category",
+    "type",
+    "status",
+    "description",
+    "quantity",
+    "amount",
+  ]
+
+  // Check for column identifiers in the query
+  for (const identifier of columnIdentifiers) {
+    if (query.toLowerCase().includes(identifier.toLowerCase())) {
+      keywords.push(identifier)
+    }
+  }
+
+  return keywords
+}
+
+// Generate follow-up questions for search results
+const generateSearchFollowUpQuestions = (
+  searchValue: string,
+  matchingRows: any[],
+  columns: string[],
+  language: Language,
+): string[] => {
+  const questions = []
+
+  if (matchingRows.length > 0) {
+    // Get a random column from the first matching row
+    const availableColumns = Object.keys(matchingRows[0])
+    const randomColumn = availableColumns[Math.floor(Math.random() * availableColumns.length)]
+
+    if (language === "de-DE") {
+      questions.push(`Wie viele Einträge haben den Wert ${searchValue}?`)
+      questions.push(`Was ist der Durchschnitt von ${randomColumn}?`)
+      questions.push(`Gibt es andere Einträge mit ähnlichen Werten?`)
+    } else {
+      questions.push(`How many entries have the value ${searchValue}?`)
+      questions.push(`What is the average of ${randomColumn}?`)
+      questions.push(`Are there other entries with similar values?`)
+    }
+  } else {
+    if (language === "de-DE") {
+      questions.push("Welche Werte gibt es in dieser Spalte?")
+      questions.push("Gib mir einen Überblick über die Daten.")
+      questions.push("Wie viele Einträge gibt es insgesamt?")
+    } else {
+      questions.push("What values exist in this column?")
+      questions.push("Give me an overview of the data.")
+      questions.push("How many entries are there in total?")
+    }
+  }
+
+  return questions
+}
+
+// Calculate average
+const calculateAverage = (
+  data: any[],
+  mentionedColumns: string[],
+  decimalSeparators: DecimalSeparators,
+  language: Language,
+): QueryResult => {
+  if (mentionedColumns.length === 0) {
+    return {
+      answer:
+        language === "de-DE"
+          ? "Bitte geben Sie eine Spalte an, für die Sie den Durchschnitt berechnen möchten."
+          : "Please specify a column for which you want to calculate the average.",
+      explanation: "",
+      data: null,
+      followUpQuestions: [],
+      confidence: 0.5,
+      usedColumns: [],
+      operation: "average",
+    }
+  }
+
+  const column = mentionedColumns[0]
+  const values = data.map((row) => readCellNumber(row, column, decimalSeparators)).filter((val) => !isNaN(val))
+
+  if (values.length === 0) {
+    return {
+      answer:
+        language === "de-DE"
+          ? `Ich konnte keine numerischen Werte in der Spalte ${column} finden.`
+          : `I couldn't find any numeric values in the ${column} column.`,
+      explanation: "",
+      data: null,
+      followUpQuestions: [],
+      confidence: 0.7,
+      usedColumns: [column],
+      operation: "average",
+    }
+  }
+
+  const average = values.reduce((sum, val) => sum + val, 0) / values.length
+
+  return {
+    answer:
+      language === "de-DE"
+        ? `Der Durchschnitt von ${column} ist ${formatDecimal(average, language)}.`
+        : `The average of ${column} is ${formatDecimal(average, language)}.`,
+    explanation:
+      language === "de-DE"
+        ? `Ich habe den Durchschnitt berechnet, indem ich alle Werte in der Spalte ${column} addiert und durch die Anzahl der Werte (${values.length}) geteilt habe.`
+        : `I calculated the average by adding all values in the ${column} column and dividing by the number of values (${values.length}).`,
+    data: data.map((row) => ({ [column]: row[column] })).slice(0, 10),
+    followUpQuestions: [
+      language === "de-DE" ? `Was ist die Summe von ${column}?` : `What is the sum of ${column}?`,
+      language === "de-DE" ? `Was ist der Maximalwert von ${column}?` : `What is the maximum value of ${column}?`,
+      language === "de-DE" ? `Wie viele Einträge gibt es in ${column}?` : `How many entries are there in ${column}?`,
+    ],
+    confidence: 0.9,
+    usedColumns: [column],
+    operation: "average",
+  }
+}
+
+// Calculate sum
+const calculateSum = (
+  data: any[],
+  mentionedColumns: string[],
+  decimalSeparators: DecimalSeparators,
+  language: Language,
+): QueryResult => {
+  if (mentionedColumns.length === 0) {
+    return {
+      answer:
+        language === "de-DE"
+          ? "Bitte geben Sie eine Spalte an, für die Sie die Summe berechnen möchten."
+          : "Please specify a column for which you want to calculate the sum.",
+      explanation: "",
+      data: null,
+      followUpQuestions: [],
+      confidence: 0.5,
+      usedColumns: [],
+      operation: "sum",
+    }
+  }
+
+  const column = mentionedColumns[0]
+  const values = data.map((row) => readCellNumber(row, column, decimalSeparators)).filter((val) => !isNaN(val))
+
+  if (values.length === 0) {
+    return {
+      answer:
+        language === "de-DE"
+          ? `Ich konnte keine numerischen Werte in der Spalte ${column} finden.`
+          : `I couldn't find any numeric values in the ${column} column.`,
+      explanation: "",
+      data: null,
+      followUpQuestions: [],
+      confidence: 0.7,
+      usedColumns: [column],
+      operation: "sum",
+    }
+  }
+
+  const sum = values.reduce((total, val) => total + val, 0)
+
+  return {
+    answer:
+      language === "de-DE"
+        ? `Die Summe von ${column} ist ${formatDecimal(sum, language)}.`
+        : `The sum of ${column} is ${formatDecimal(sum, language)}.`,
+    explanation:
+      language === "de-DE"
+        ? `Ich habe die Summe berechnet, indem ich alle Werte in der Spalte ${column} addiert habe.`
+        : `I calculated the sum by adding all values in the ${column} column.`,
+    data: data.map((row) => ({ [column]: row[column] })).slice(0, 10),
+    followUpQuestions: [
+      language === "de-DE" ? `Was ist der Durchschnitt von ${column}?` : `What is the average of ${column}?`,
+      language === "de-DE" ? `Was ist der Minimalwert von ${column}?` : `What is the minimum value of ${column}?`,
+      language === "de-DE" ? `Wie viele Einträge gibt es in ${column}?` : `How many entries are there in ${column}?`,
+    ],
+    confidence: 0.9,
+    usedColumns: [column],
+    operation: "sum",
+  }
+}
+
+// Count values
+const countValues = (data: any[], mentionedColumns: string[], language: Language): QueryResult => {
+  if (mentionedColumns.length === 0) {
+    // Count all rows
+    return {
+      answer:
+        language === "de-DE"
+          ? `Es gibt insgesamt ${data.length} Einträge in dieser Tabelle.`
+          : `There are a total of ${data.length} entries in this sheet.`,
+      explanation:
+        language === "de-DE"
+          ? "Ich habe die Gesamtzahl der Zeilen in der Tabelle gezählt."
+          : "I counted the total number of rows in the sheet.",
+      data: null,
+      followUpQuestions: [],
+      confidence: 0.9,
+      usedColumns: [],
+      operation: "count",
+    }
+  }
+
+  const column = mentionedColumns[0]
+  const nonEmptyCount = data.filter(
+    (row) => row[column] !== undefined && row[column] !== null && row[column] !== "",
+  ).length
+
+  return {
+    answer:
+      language === "de-DE"
+        ? `Es gibt ${nonEmptyCount} nicht-leere Einträge in der Spalte ${column}.`
+        : `There are ${nonEmptyCount} non-empty entries in the ${column} column.`,
+    explanation:
+      language === "de-DE"
+        ? `Ich habe die Anzahl der nicht-leeren Werte in der Spalte ${column} gezählt.`
+        : `I counted the number of non-empty values in the ${column} column.`,
+    data: data.map((row) => ({ [column]: row[column] })).slice(0, 10),
+    followUpQuestions: [
+      language === "de-DE" ? `Was ist der Durchschnitt von ${column}?` : `What is the average of ${column}?`,
+      language === "de-DE"
+        ? `Was sind die einzigartigen Werte in ${column}?`
+        : `What are the unique values in ${column}?`,
+      language === "de-DE" ? `Wie viele Einträge gibt es insgesamt?` : `How many entries are there in total?`,
+    ],
+    confidence: 0.9,
+    usedColumns: [column],
+    operation: "count",
+  }
+}
+
+// Find minimum value
+const findMinimum = (
+  data: any[],
+  mentionedColumns: string[],
+  decimalSeparators: DecimalSeparators,
+  language: Language,
+): QueryResult => {
+  if (mentionedColumns.length === 0) {
+    return {
+      answer:
+        language === "de-DE"
+          ? "Bitte geben Sie eine Spalte an, für die Sie den Minimalwert finden möchten."
+          : "Please specify a column for which you want to find the minimum value.",
+      explanation: "",
+      data: null,
+      followUpQuestions: [],
+      confidence: 0.5,
+      usedColumns: [],
+      operation: "min",
+    }
+  }
+
+  const column = mentionedColumns[0]
+  const values = data.map((row) => readCellNumber(row, column, decimalSeparators)).filter((val) => !isNaN(val))
+
+  if (values.length === 0) {
+    return {
+      answer:
+        language === "de-DE"
+          ? `Ich konnte keine numerischen Werte in der Spalte ${column} finden.`
+          : `I couldn't find any numeric values in the ${column} column.`,
+      explanation: "",
+      data: null,
+      followUpQuestions: [],
+      confidence: 0.7,
+      usedColumns: [column],
+      operation: "min",
+    }
+  }
+
+  const min = Math.min(...values)
+
+  return {
+    answer:
+      language === "de-DE" ? `Der Minimalwert von ${column} ist ${min}.` : `The minimum value of ${column} is ${min}.`,
+    explanation:
+      language === "de-DE"
+        ? `Ich habe den kleinsten Wert in der Spalte ${column} gefunden.`
+        : `I found the smallest value in the ${column} column.`,
+    data: data.filter((row) => readCellNumber(row, column, decimalSeparators) === min).slice(0, 10),
+    followUpQuestions: [
+      language === "de-DE" ? `Was ist der Maximalwert von ${column}?` : `What is the maximum value of ${column}?`,
+      language === "de-DE" ? `Was ist der Durchschnitt von ${column}?` : `What is the average of ${column}?`,
+      language === "de-DE" ? `Wie viele Einträge haben den Minimalwert?` : `How many entries have the minimum value?`,
+    ],
+    confidence: 0.9,
+    usedColumns: [column],
+    operation: "min",
+  }
+}
+
+// Find maximum value
+const findMaximum = (
+  data: any[],
+  mentionedColumns: string[],
+  decimalSeparators: DecimalSeparators,
+  language: Language,
+): QueryResult => {
+  if (mentionedColumns.length === 0) {
+    return {
+      answer:
+        language === "de-DE"
+          ? "Bitte geben Sie eine Spalte an, für die Sie den Maximalwert finden möchten."
+          : "Please specify a column for which you want to find the maximum value.",
+      explanation: "",
+      data: null,
+      followUpQuestions: [],
+      confidence: 0.5,
+      usedColumns: [],
+      operation: "max",
+    }
+  }
+
+  const column = mentionedColumns[0]
+  const values = data.map((row) => readCellNumber(row, column, decimalSeparators)).filter((val) => !isNaN(val))
+
+  if (values.length === 0) {
+    return {
+      answer:
+        language === "de-DE"
+          ? `Ich konnte keine numerischen Werte in der Spalte ${column} finden.`
+          : `I couldn't find any numeric values in the ${column} column.`,
+      explanation: "",
+      data: null,
+      followUpQuestions: [],
+      confidence: 0.7,
+      usedColumns: [column],
+      operation: "max",
+    }
+  }
+
+  const max = Math.max(...values)
+
+  return {
+    answer:
+      language === "de-DE" ? `Der Maximalwert von ${column} ist ${max}.` : `The maximum value of ${column} is ${max}.`,
+    explanation:
+      language === "de-DE"
+        ? `Ich habe den größten Wert in der Spalte ${column} gefunden.`
+        : `I found the largest value in the ${column} column.`,
+    data: data.filter((row) => readCellNumber(row, column, decimalSeparators) === max).slice(0, 10),
+    followUpQuestions: [
+      language === "de-DE" ? `Was ist der Minimalwert von ${column}?` : `What is the minimum value of ${column}?`,
+      language === "de-DE" ? `Was ist der Durchschnitt von ${column}?` : `What is the average of ${column}?`,
+      language === "de-DE" ? `Wie viele Einträge haben den Maximalwert?` : `How many entries have the maximum value?`,
+    ],
+    confidence: 0.9,
+    usedColumns: [column],
+    operation: "max",
+  }
+}
+
+const aggregationOperations: AggregationOperation[] = ["average", "sum", "count", "min", "max"]
+
+// Aggregation names; German needs the accusative article inside sentences
+const aggregationLabels: Record<AggregationOperation, { en: string; de: string; deAccusative: string }> = {
+  average: { en: "average", de: "Durchschnitt", deAccusative: "den Durchschnitt" },
+  sum: { en: "sum", de: "Summe", deAccusative: "die Summe" },
+  count: { en: "count", de: "Anzahl", deAccusative: "die Anzahl" },
+  min: { en: "minimum", de: "Minimum", deAccusative: "das Minimum" },
+  max: { en: "maximum", de: "Maximum", deAccusative: "das Maximum" },
+}
+
+// Apply an aggregation to a list of numbers
+const aggregateValues = (operation: AggregationOperation, values: number[]): number => {
+  switch (operation) {
+    case "average":
+      return values.reduce((sum, val) => sum + val, 0) / values.length
+    case "sum":
+      return values.reduce((sum, val) => sum + val, 0)
+    case "count":
+      return values.length
+    case "min":
+      return values.reduce((min, val) => Math.min(min, val), Infinity)
+    case "max":
+      return values.reduce((max, val) => Math.max(max, val), -Infinity)
+  }
+}
+
+// Calculate an aggregation for each group of a column
+const calculateGroupedAggregation = (
+  operation: AggregationOperation,
+  data: any[],
+  valueColumns: string[],
+  groupByColumn: string,
+  decimalSeparators: DecimalSeparators,
+  language: Language,
+): QueryResult => {
+  const valueColumn = valueColumns[0] || null
+  const label = language === "de-DE" ? aggregationLabels[operation].de : aggregationLabels[operation].en
+
+  if (!valueColumn && operation !== "count") {
+    return {
+      answer:
+        language === "de-DE"
+          ? `Bitte geben Sie eine Spalte an, für die Sie ${aggregationLabels[operation].deAccusative} pro ${groupByColumn} berechnen möchten.`
+          : `Please specify a column for which you want to calculate the ${label} per ${groupByColumn}.`,
+      explanation: "",
+      data: null,
+      followUpQuestions: [],
+      confidence: 0.5,
+      usedColumns: [groupByColumn],
+      operation,
+    }
+  }
+
+  // Count non-empty values (or rows), everything else needs numbers
+  const groups = new Map<string, number[]>()
+  for (const row of data) {
+    const groupValue = row[groupByColumn]
+    const group =
+      groupValue !== undefined && groupValue !== null && groupValue !== ""
+        ? String(groupValue)
+        : language === "de-DE"
+          ? "(leer)"
+          : "(empty)"
+
+    let value: number
+    if (operation === "count") {
+      if (valueColumn && (row[valueColumn] === undefined || row[valueColumn] === null || row[valueColumn] === ""))
+        continue
+      value = 1
+    } else {
+      value = readCellNumber(row, valueColumn as string, decimalSeparators)
+      if (isNaN(value)) continue
+    }
+
+    groups.set(group, [...(groups.get(group) || []), value])
+  }
+
+  const usedColumns = valueColumn ? [valueColumn, groupByColumn] : [groupByColumn]
+
+  if (groups.size === 0) {
+    return {
+      answer:
+        language === "de-DE"
+          ? `Ich konnte keine numerischen Werte in der Spalte ${valueColumn} finden.`
+          : `I couldn't find any numeric values in the ${valueColumn} column.`,
+      explanation: "",
+      data: null,
+      followUpQuestions: [],
+      confidence: 0.7,
+      usedColumns,
+      operation,
+    }
+  }
+
+  // Minimum lists the smallest groups first, everything else the largest
+  const results = [...groups.entries()]
+    .map(([group, values]) => ({ group, value: aggregateValues(operation, values), rows: values.length }))
+    .sort((a, b) => (operation === "min" ? a.value - b.value : b.value - a.value))
+
+  const formatValue = (value: number) => (operation === "count" ? String(value) : formatDecimal(value, language))
+  const topGroups = results
+    .slice(0, 3)
+    .map((result) => `${result.group}: ${formatValue(result.value)}`)
+    .join(", ")
+  const measure =
+    operation === "count" && !valueColumn
+      ? language === "de-DE"
+        ? "Anzahl der Einträge"
+        : "number of entries"
+      : language === "de-DE"
+        ? `${label} von ${valueColumn}`
+        : `${label} of ${valueColumn}`
+  const englishLabel = aggregationLabels[operation].en
+  const valueKey =
+    operation === "count"
+      ? "Count"
+      : `${englishLabel.charAt(0).toUpperCase()}${englishLabel.slice(1)} of ${valueColumn}`
+
+  return {
+    answer:
+      language === "de-DE"
+        ? `${measure.charAt(0).toUpperCase()}${measure.slice(1)} nach ${groupByColumn}: ${topGroups}. Insgesamt gibt es ${results.length} Gruppen.`
+        : `The ${measure} by ${groupByColumn}: ${topGroups}. There are ${results.length} groups in total.`,
+    explanation:
+      language === "de-DE"
+        ? `Ich habe die Zeilen nach der Spalte ${groupByColumn} gruppiert und für jede der ${results.length} Gruppen ${operation === "count" ? "die Einträge gezählt" : `${aggregationLabels[operation].deAccusative} von ${valueColumn} berechnet`}.`
+        : `I grouped the rows by the ${groupByColumn} column and calculated the ${measure} for each of the ${results.length} groups.`,
+    data: results.slice(0, 50).map((result) => ({
+      [groupByColumn]: result.group,
+      [valueKey]: operation === "count" ? result.value : Number(result.value.toFixed(2)),
+      ...(operation === "count" ? {} : { Rows: result.rows }),
+    })),
+    followUpQuestions: [
+      language === "de-DE"
+        ? `Wie viele Einträge gibt es pro ${groupByColumn}?`
+        : `How many entries are there per ${groupByColumn}?`,
+      valueColumn
+        ? language === "de-DE"
+          ? `Was ist die Summe von ${valueColumn} pro ${groupByColumn}?`
+          : `What is the sum of ${valueColumn} per ${groupByColumn}?`
+        : language === "de-DE"
+          ? `Was sind die einzigartigen Werte in ${groupByColumn}?`
+          : `What are the unique values in ${groupByColumn}?`,
+      language === "de-DE" ? "Gib mir einen Überblick über die Daten." : "Give me an overview of the data.",
+    ],
+    confidence: 0.9,
+    usedColumns,
+    operation,
+  }
+}
+
+// Format a number with a fixed number of decimals in the user's locale ("1234.50", "1234,50")
+const formatDecimal = (value: number, language: Language, digits = 2): string =>
+  new Intl.NumberFormat(language === "de-DE" ? "de-DE" : "en-US", {
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits,
+    useGrouping: false,
+  }).format(value)
+
+// Format a ratio as a percentage in the user's locale ("12.5%", "12,5 %")
+const formatPercentage = (ratio: number, language: Language): string =>
+  new Intl.NumberFormat(language === "de-DE" ? "de-DE" : "en-US", {
+    style: "percent",
+    maximumFractionDigits: 1,
+  }).format(ratio)
+
+// Calculate which share of the rows (or of a column's total) matches a condition, optionally per group
+const calculateShare = (
+  data: any[],
+  conditions: FilterCondition[],
+  valueColumns: string[],
+  groupByColumn: string | null,
+  decimalSeparators: DecimalSeparators,
+  language: Language,
+): QueryResult => {
+  if (conditions.length === 0 && !groupByColumn) {
+    return {
+      answer:
+        language === "de-DE"
+          ? "Bitte geben Sie an, für welchen Teil der Daten Sie den Anteil berechnen möchten, z.B. Anteil der Bestellungen aus Deutschland."
+          : "Please specify which part of the data you want the share of, e.g. percentage of orders from Germany.",
+      explanation: "",
+      data: null,
+      followUpQuestions: [],
+      confidence: 0.5,
+      usedColumns: [],
+      operation: "share",
+    }
+  }
+
+  // Sum a numeric column when one is named ("share of revenue"), otherwise count rows
+  const conditionColumns = conditions.map((condition) => condition.column)
+  const measureColumn =
+    valueColumns.find(
+      (column) => !conditionColumns.includes(column) && isNumericColumn(data, column, decimalSeparators),
+    ) || null
+  const measure = (rows: any[]) =>
+    measureColumn
+      ? rows.reduce((sum, row) => {
+          const value = readCellNumber(row, measureColumn, decimalSeparators)
+          return isNaN(value) ? sum : sum + value
+        }, 0)
+      : rows.length
+  const formatMeasure = (value: number) => (measureColumn ? formatDecimal(value, language) : String(value))
+  const measureName = measureColumn
+    ? language === "de-DE"
+      ? `der Summe von ${measureColumn}`
+      : `the total ${measureColumn}`
+    : language === "de-DE"
+      ? "aller Einträge"
+      : "all entries"
+  const matches = (row: any) =>
+    conditions.every((condition) => matchesFilterCondition(row, condition, decimalSeparators))
+  const conditionText = conditions
+    .map((condition) => describeFilterCondition(condition, language))
+    .join(language === "de-DE" ? " und " : " and ")
+  const usedColumns = [
+    ...new Set([
+      ...(measureColumn ? [measureColumn] : []),
+      ...conditionColumns,
+      ...(groupByColumn ? [groupByColumn] : []),
+    ]),
+  ]
+  const followUpQuestions = [
+    language === "de-DE" ? "Wie viele Einträge gibt es insgesamt?" : "How many entries are there in total?",
+    language === "de-DE" ? "Gib mir einen Überblick über die Daten." : "Give me an overview of the data.",
+  ]
+
+  if (groupByColumn) {
+    // The conditions narrow down the rows, and each group's share is taken of what remains
+    const scopedRows = conditions.length > 0 ? data.filter(matches) : data
+    const groups = new Map<string, any[]>()
+    for (const row of scopedRows) {
+      const groupValue = row[groupByColumn]
+      const group =
+        groupValue !== undefined && groupValue !== null && groupValue !== ""
+          ? String(groupValue)
+          : language === "de-DE"
+            ? "(leer)"
+            : "(empty)"
+      groups.set(group, [...(groups.get(group) || []), row])
+    }
+
+    const total = measure(scopedRows)
+    const shares = [...groups.entries()]
+      .map(([group, rows]) => {
+        const numerator = measure(rows)
+        return { group, numerator, denominator: total, ratio: total !== 0 ? numerator / total : 0 }
+      })
+      .sort((a, b) => b.ratio - a.ratio)
+    const topGroups = shares
+      .slice(0, 3)
+      .map((share) => `${share.group} ${formatPercentage(share.ratio, language)}`)
+      .join(", ")
+
+    return {
+      answer:
+        conditions.length > 0
+          ? language === "de-DE"
+            ? `Anteil ${measureName} nach ${groupByColumn} (${conditionText}): ${topGroups}.`
+            : `Share of ${measureName} by ${groupByColumn} where ${conditionText}: ${topGroups}.`
+          : language === "de-DE"
+            ? `Anteil ${measureName} nach ${groupByColumn}: ${topGroups}.`
+            : `Share of ${measureName} by ${groupByColumn}: ${topGroups}.`,
+      explanation:
+        conditions.length > 0
+          ? language === "de-DE"
+            ? `Ich habe die ${scopedRows.length} Zeilen behalten, für die gilt: ${conditionText}, und den Wert jeder der ${shares.length} Gruppen in ${groupByColumn} durch deren Gesamtwert (${formatMeasure(total)}) geteilt.`
+            : `I kept the ${scopedRows.length} rows where ${conditionText} and divided the value of each of the ${shares.length} groups in ${groupByColumn} by their total (${formatMeasure(total)}).`
+          : language === "de-DE"
+            ? `Ich habe den Wert jeder der ${shares.length} Gruppen in ${groupByColumn} durch den Gesamtwert (${formatMeasure(total)}) geteilt.`
+            : `I divided the value of each of the ${shares.length} groups in ${groupByColumn} by the overall total (${formatMeasure(total)}).`,
+      data: shares.slice(0, 50).map((share) => ({
+        [groupByColumn]: share.group,
+        Value: Number(share.numerator.toFixed(2)),
+        Total: Number(share.denominator.toFixed(2)),
+        Share: formatPercentage(share.ratio, language),
+      })),
+      followUpQuestions,
+      confidence: 0.85,
+      usedColumns,
+      operation: "share",
+    }
+  }
+
+  const numerator = measure(data.filter(matches))
+  const denominator = measure(data)
+  const ratio = denominator !== 0 ? numerator / denominator : 0
+  const percentage = formatPercentage(ratio, language)
+
+  return {
+    answer:
+      language === "de-DE"
+        ? `${percentage} ${measureName} entfallen auf Zeilen, für die gilt: ${conditionText}.`
+        : `${percentage} of ${measureName} come from rows where ${conditionText}.`,
+    explanation:
+      language === "de-DE"
+        ? `Ich habe ${formatMeasure(numerator)} (${measureColumn ? `Summe von ${measureColumn}` : "Anzahl der Zeilen"}, für die gilt: ${conditionText}) durch ${formatMeasure(denominator)} (${measureColumn ? `Summe von ${measureColumn}` : "Anzahl der Zeilen"} insgesamt) geteilt.`
+        : `I divided ${formatMeasure(numerator)} (${measureColumn ? `sum of ${measureColumn}` : "number of rows"} where ${conditionText}) by ${formatMeasure(denominator)} (${measureColumn ? `sum of ${measureColumn}` : "number of rows"} overall).`,
+    data: [
+      {
+        Condition: conditionText,
+        Value: Number(numerator.toFixed(2)),
+        Total: Number(denominator.toFixed(2)),
+        Share: percentage,
+      },
+    ],
+    followUpQuestions,
+    confidence: 0.85,
+    usedColumns,
+    operation: "share",
+  }
+}
+
+// Words naming an operation inside comparisons and combined queries ("sum and average of revenue")
+const operationKeywords: Record<CombinedOperation, string[]> = {
+  average: ["average", "mean", "avg", "durchschnitt", "durchschnittlich", "durchschnittliche", "mittelwert"],
+  sum: ["sum", "total", "summe", "gesamtsumme", "gesamt"],
+  count: ["count", "how many", "number of", "anzahl", "wie viele"],
+  min: ["minimum", "min", "lowest", "smallest", "minimal", "niedrigste", "kleinste"],
+  max: ["maximum", "max", "highest", "largest", "maximal", "höchste", "größte"],
+  median: ["median"],
+  stddev: ["standard deviation", "std dev", "stddev", "standardabweichung"],
+  variance: ["variance", "varianz"],
+}
+
+// Find the operations a query names, in the order they are spoken. "In total" is not a sum.
+const findMentionedOperations = (query: string): CombinedOperation[] => {
+  const lowerCaseQuery = query.toLowerCase().replace(/\bin total\b/g, "")
+  return (Object.keys(operationKeywords) as CombinedOperation[])
+    .map((operation) => ({
+      operation,
+      index: Math.min(
+        ...operationKeywords[operation]
+          .map((word) => findPhrase(lowerCaseQuery, word))
+          .map((index) => (index === -1 ? Infinity : index)),
+      ),
+    }))
+    .filter(({ index }) => index !== Infinity)
+    .sort((a, b) => a.index - b.index)
+    .map(({ operation }) => operation)
+}
+
+// Find values of category columns that are mentioned in the query, e.g. "Berlin" and "Munich"
+const findSegmentMentions = (
+  query: string,
+  data: any[],
+  columns: string[],
+  decimalSeparators: DecimalSeparators,
+): { column: string; value: string; start: number; end: number }[] => {
+  const lowerCaseQuery = query.toLowerCase()
+  const mentions: { column: string; value: string; start: number; end: number }[] = []
+
+  for (const column of columns) {
+    const distinctValues = [
+      ...new Set(
+        data
+          .map((row) => row[column])
+          .filter((val) => val !== undefined && val !== null && val !== "")
+          .map((val) => String(val)),
+      ),
+    ]
+    // Numeric columns only count as categories when they have few values, like years
+    if (isNumericColumn(data, column, decimalSeparators) && distinctValues.length > 20) continue
+
+    for (const value of distinctValues) {
+      if (value.length < 2) continue
+      const start = findPhrase(lowerCaseQuery, value.toLowerCase())
+      if (start !== -1) mentions.push({ column, value, start, end: start + value.length })
+    }
+  }
+
+  // Prefer the longest value where mentions overlap ("Product A" over "Product")
+  return mentions
+    .sort((a, b) => b.end - b.start - (a.end - a.start))
+    .filter(
+      (mention, index, sorted) =>
+        !sorted.slice(0, index).some((other) => mention.start < other.end && mention.end > other.start),
+    )
+    .sort((a, b) => a.start - b.start)
+}
+
+// Find the two segments a comparison names: two values of the same column first, otherwise the first two values
+const findComparedSegments = (
+  query: string,
+  data: any[],
+  columns: string[],
+  decimalSeparators: DecimalSeparators,
+): Segment[] => {
+  const mentions = findSegmentMentions(query, data, columns, decimalSeparators)
+  const sameColumnPair = mentions.find((mention, index) =>
+    mentions.slice(index + 1).some((other) => other.column === mention.column && other.value !== mention.value),
+  )
+  const segments = sameColumnPair
+    ? [
+        sameColumnPair,
+        mentions.find(
+          (other) =>
+            other.start > sameColumnPair.start &&
+            other.column === sameColumnPair.column &&
+            other.value !== sameColumnPair.value,
+        )!,
+      ]
+    : mentions.slice(0, 2)
+  return segments.map(({ column, value }) => ({ column, value }))
+}
+
+// Read which aggregation a query asks for ("average", "total", "wie viele"), or null
+const extractAggregation = (query: string): AggregationOperation | null => {
+  const lowerCaseQuery = query.toLowerCase()
+  return (
+    aggregationOperations.find((candidate) =>
+      operationKeywords[candidate].some((word) => containsPhrase(lowerCaseQuery, word)),
+    ) || null
+  )
+}
+
+// Compare an aggregation between two segments ("Berlin vs Munich") or two columns ("revenue vs cost")
+const compareSegments = (
+  segments: Segment[],
+  aggregation: AggregationOperation | null,
+  data: any[],
+  mentionedColumns: string[],
+  decimalSeparators: DecimalSeparators,
+  language: Language,
+): QueryResult => {
+  const segmentColumns = segments.map((segment) => segment.column)
+  const measureColumns = mentionedColumns.filter(
+    (column) => !segmentColumns.includes(column) && isNumericColumn(data, column, decimalSeparators),
+  )
+
+  const operation = aggregation || (measureColumns.length > 0 ? "sum" : "count")
+  const label = language === "de-DE" ? aggregationLabels[operation].de : aggregationLabels[operation].en
+  const englishLabel = aggregationLabels[operation].en
+
+  const numericValues = (rows: any[], column: string) =>
+    rows.map((row) => readCellNumber(row, column, decimalSeparators)).filter((value) => !isNaN(value))
+
+  // Each side holds one aggregated value per measure
+  let sides: { name: string; values: number[] }[]
+  let measures: { key: string; spoken: string }[]
+
+  if (segments.length === 2) {
+    const segmentRows = segments.map((segment) =>
+      data.filter((row) => String(row[segment.column]).toLowerCase() === segment.value.toLowerCase()),
+    )
+    const usedMeasures = operation === "count" ? [] : measureColumns
+    if (operation !== "count" && usedMeasures.length === 0) {
+      return {
+        answer:
+          language === "de-DE"
+            ? `Bitte geben Sie eine Spalte an, für die Sie ${aggregationLabels[operation].deAccusative} von ${segments[0].value} und ${segments[1].value} vergleichen möchten.`
+            : `Please specify a column for which you want to compare the ${label} of ${segments[0].value} and ${segments[1].value}.`,
+        explanation: "",
+        data: null,
+        followUpQuestions: [],
+        confidence: 0.5,
+        usedColumns: [...new Set(segmentColumns)],
+        operation: "compare",
+      }
+    }
+
+    sides = segments.map((segment, index) => ({
+      name: segment.value,
+      values:
+        usedMeasures.length > 0
+          ? usedMeasures.map((column) => aggregateValues(operation, numericValues(segmentRows[index], column)))
+          : [segmentRows[index].length],
+    }))
+    measures =
+      usedMeasures.length > 0
+        ? usedMeasures.map((column) => ({
+            key: `${englishLabel.charAt(0).toUpperCase()}${englishLabel.slice(1)} of ${column}`,
+            spoken: language === "de-DE" ? `${label} von ${column}` : `${label} of ${column}`,
+          }))
+        : [{ key: "Count", spoken: language === "de-DE" ? "Anzahl der Einträge" : "number of entries" }]
+  } else if (measureColumns.length >= 2) {
+    const [first, second] = measureColumns
+    sides = [first, second].map((column) => ({
+      name: column,
+      values: [aggregateValues(operation, numericValues(data, column))],
+    }))
+    measures = [{ key: `${englishLabel.charAt(0).toUpperCase()}${englishLabel.slice(1)}`, spoken: label }]
+  } else {
+    return {
+      answer:
+        language === "de-DE"
+          ? "Bitte nennen Sie zwei Werte oder Spalten, die ich vergleichen soll, z.B. Berlin gegenüber München."
+          : "Please name two values or columns to compare, e.g. Berlin vs Munich.",
+      explanation: "",
+      data: null,
+      followUpQuestions: [],
+      confidence: 0.5,
+      usedColumns: [],
+      operation: "compare",
+    }
+  }
+
+  const formatValue = (value: number) => (operation === "count" ? String(value) : formatDecimal(value, language))
+  const [left, right] = sides
+  const comparisons = measures.map((measure, index) => {
+    const leftValue = left.values[index]
+    const rightValue = right.values[index]
+    const difference = leftValue - rightValue
+    const percentDifference = rightValue !== 0 && isFinite(rightValue) ? difference / Math.abs(rightValue) : null
+    return { measure, leftValue, rightValue, difference, percentDifference }
+  })
+
+  const sentences = comparisons.map(({ measure, leftValue, rightValue, difference, percentDifference }) => {
+    if (!isFinite(leftValue) || !isFinite(rightValue)) {
+      return language === "de-DE"
+        ? `Für ${measure.spoken} fehlen numerische Werte bei ${!isFinite(leftValue) ? left.name : right.name}.`
+        : `There are no numeric values for the ${measure.spoken} of ${!isFinite(leftValue) ? left.name : right.name}.`
+    }
+    const intro =
+      language === "de-DE"
+        ? `${measure.spoken.charAt(0).toUpperCase()}${measure.spoken.slice(1)}: ${left.name} ${formatValue(leftValue)} gegenüber ${right.name} ${formatValue(rightValue)}.`
+        : `The ${measure.spoken}: ${left.name} ${formatValue(leftValue)} vs. ${right.name} ${formatValue(rightValue)}.`
+    if (difference === 0) {
+      return language === "de-DE" ? `${intro} Beide sind gleich.` : `${intro} Both are equal.`
+    }
+    const percentText =
+      percentDifference !== null ? ` (${formatPercentage(Math.abs(percentDifference), language)})` : ""
+    return language === "de-DE"
+      ? `${intro} ${left.name} liegt um ${formatValue(Math.abs(difference))}${percentText} ${difference > 0 ? "höher" : "niedriger"}.`
+      : `${intro} ${left.name} is ${formatValue(Math.abs(difference))}${percentText} ${difference > 0 ? "higher" : "lower"}.`
+  })
+
+  const usedColumns = [
+    ...new Set([...segmentColumns, ...(segments.length === 2 ? measureColumns : sides.map((side) => side.name))]),
+  ]
+
+  return {
+    answer: sentences.join(" "),
+    explanation:
+      segments.length === 2
+        ? language === "de-DE"
+          ? `Ich habe ${operation === "count" ? "die Zeilen gezählt" : `${aggregationLabels[operation].deAccusative} von ${measureColumns.join(", ")} für die Zeilen berechnet`}, in denen ${segments[0].column} gleich ${left.name} ist, und das mit den Zeilen verglichen, in denen ${segments[1].column} gleich ${right.name} ist. Die prozentuale Differenz bezieht sich auf ${right.name}.`
+          : `I ${operation === "count" ? "counted the rows" : `calculated the ${label} of ${measureColumns.join(", ")} for the rows`} where ${segments[0].column} is ${left.name} and compared it with the rows where ${segments[1].column} is ${right.name}. The percent difference is relative to ${right.name}.`
+        : language === "de-DE"
+          ? `Ich habe ${aggregationLabels[operation].deAccusative} der Spalten ${left.name} und ${right.name} über alle ${data.length} Zeilen berechnet. Die prozentuale Differenz bezieht sich auf ${right.name}.`
+          : `I calculated the ${label} of the ${left.name} and ${right.name} columns over all ${data.length} rows. The percent difference is relative to ${right.name}.`,
+    data: comparisons.map(({ measure, leftValue, rightValue, difference, percentDifference }) => ({
+      Measure: measure.key,
+      [left.name]: Number(leftValue.toFixed(2)),
+      [right.name]: Number(rightValue.toFixed(2)),
+      Difference: Number(difference.toFixed(2)),
+      "Difference %": percentDifference !== null ? formatPercentage(percentDifference, language) : "–",
+    })),
+    followUpQuestions: [
+      segments.length === 2
+        ? language === "de-DE"
+          ? `Wie viele Einträge gibt es pro ${segments[0].column}?`
+          : `How many entries are there per ${segments[0].column}?`
+        : language === "de-DE"
+          ? `Gibt es eine Korrelation zwischen ${left.name} und ${right.name}?`
+          : `Is there a correlation between ${left.name} and ${right.name}?`,
+      language === "de-DE" ? "Gib mir einen Überblick über die Daten." : "Give me an overview of the data.",
+    ],
+    confidence: 0.85,
+    usedColumns,
+    operation: "compare",
+  }
+}
+
+// Names of combinable operations; German also with the article used in "ist die Summe 10"
+const combinedOperationLabels: Record<
+  CombinedOperation,
+  { en: string; de: string; deNominative: string; key: string }
+> = {
+  average: { en: "average", de: "Durchschnitt", deNominative: "der Durchschnitt", key: "Average" },
+  sum: { en: "sum", de: "Summe", deNominative: "die Summe", key: "Sum" },
+  count: { en: "count", de: "Anzahl", deNominative: "die Anzahl", key: "Count" },
+  min: { en: "minimum", de: "Minimum", deNominative: "das Minimum", key: "Minimum" },
+  max: { en: "maximum", de: "Maximum", deNominative: "das Maximum", key: "Maximum" },
+  median: { en: "median", de: "Median", deNominative: "der Median", key: "Median" },
+  stddev: {
+    en: "standard deviation",
+    de: "Standardabweichung",
+    deNominative: "die Standardabweichung",
+    key: "Standard deviation",
+  },
+  variance: { en: "variance", de: "Varianz", deNominative: "die Varianz", key: "Variance" },
+}
+
+// Apply an aggregation or a statistic to a list of numbers
+const calculateCombinedOperation = (operation: CombinedOperation, values: number[]): number => {
+  if (values.length === 0) return NaN
+  switch (operation) {
+    case "median":
+      return calculatePercentile(
+        [...values].sort((a, b) => a - b),
+        50,
+      )
+    case "stddev":
+    case "variance": {
+      if (values.length < 2) return NaN
+      const mean = values.reduce((sum, val) => sum + val, 0) / values.length
+      const variance = values.reduce((sum, val) => sum + (val - mean) ** 2, 0) / (values.length - 1)
+      return operation === "variance" ? variance : Math.sqrt(variance)
+    }
+    default:
+      return aggregateValues(operation, values)
+  }
+}
+
+// Answer several operations on one or more columns at once ("sum and average of revenue")
+const calculateMultipleOperations = (
+  operations: CombinedOperation[],
+  data: any[],
+  valueColumns: string[],
+  groupByColumn: string | null,
+  decimalSeparators: DecimalSeparators,
+  language: Language,
+): QueryResult => {
+  const numericColumns = valueColumns.filter((column) => isNumericColumn(data, column, decimalSeparators))
+  const operationNames = operations.map((operation) =>
+    language === "de-DE" ? combinedOperationLabels[operation].de : combinedOperationLabels[operation].en,
+  )
+
+  if (numericColumns.length === 0) {
+    return {
+      answer:
+        language === "de-DE"
+          ? `Bitte geben Sie eine numerische Spalte an, für die ich ${operationNames.join(", ")} berechnen soll.`
+          : `Please specify a numeric column for which I should calculate the ${operationNames.join(", ")}.`,
+      explanation: "",
+      data: null,
+      followUpQuestions: [],
+      confidence: 0.5,
+      usedColumns: groupByColumn ? [groupByColumn] : [],
+      operation: "multi",
+    }
+  }
+
+  const formatResult = (operation: CombinedOperation, value: number) =>
+    isNaN(value) ? "–" : operation === "count" ? String(value) : formatDecimal(value, language)
+  const columnValues = (rows: any[], column: string) =>
+    rows.map((row) => readCellNumber(row, column, decimalSeparators)).filter((value) => !isNaN(value))
+  const joinList = (items: string[]) =>
+    items.length > 1
+      ? `${items.slice(0, -1).join(", ")} ${language === "de-DE" ? "und" : "and"} ${items[items.length - 1]}`
+      : items[0]
+  const operationList = joinList(operationNames)
+  const usedColumns = [...numericColumns, ...(groupByColumn ? [groupByColumn] : [])]
+  const followUpQuestions = [
+    language === "de-DE"
+      ? `Was ist der Median von ${numericColumns[0]}?`
+      : `What is the median of ${numericColumns[0]}?`,
+    language === "de-DE" ? "Gib mir einen Überblick über die Daten." : "Give me an overview of the data.",
+  ]
+
+  if (groupByColumn) {
+    const groups = new Map<string, any[]>()
+    for (const row of data) {
+      const groupValue = row[groupByColumn]
+      const group =
+        groupValue !== undefined && groupValue !== null && groupValue !== ""
+          ? String(groupValue)
+          : language === "de-DE"
+            ? "(leer)"
+            : "(empty)"
+      groups.set(group, [...(groups.get(group) || []), row])
+    }
+
+    // Groups are ordered by the first operation on the first column
+    const results = [...groups.entries()]
+      .map(([group, rows]) => ({
+        group,
+        values: numericColumns.map((column) =>
+          operations.map((operation) => calculateCombinedOperation(operation, columnValues(rows, column))),
+        ),
+      }))
+      .sort((a, b) => (b.values[0][0] || 0) - (a.values[0][0] || 0))
+    const groupText = results
+      .slice(0, 3)
+      .map(
+        (result) =>
+          `${result.group}: ${numericColumns
+            .map((column, columnIndex) =>
+              operations
+                .map(
+                  (operation, operationIndex) =>
+                    `${numericColumns.length > 1 ? `${column} ` : ""}${language === "de-DE" ? combinedOperationLabels[operation].de : combinedOperationLabels[operation].en} ${formatResult(operation, result.values[columnIndex][operationIndex])}`,
+                )
+                .join(", "),
+            )
+            .join(", ")}`,
+      )
+      .join("; ")
+
+    return {
+      answer:
+        language === "de-DE"
+          ? `${numericColumns.join(", ")} nach ${groupByColumn} — ${groupText}. Insgesamt gibt es ${results.length} Gruppen.`
+          : `${numericColumns.join(", ")} by ${groupByColumn} — ${groupText}. There are ${results.length} groups in total.`,
+      explanation:
+        language === "de-DE"
+          ? `Ich habe die Zeilen nach ${groupByColumn} gruppiert und für jede der ${results.length} Gruppen ${operationList} von ${joinList(numericColumns)} berechnet.`
+          : `I grouped the rows by ${groupByColumn} and calculated the ${operationList} of ${joinList(numericColumns)} for each of the ${results.length} groups.`,
+      data: results.slice(0, 50).map((result) => ({
+        [groupByColumn]: result.group,
+        ...Object.fromEntries(
+          numericColumns.flatMap((column, columnIndex) =>
+            operations.map((operation, operationIndex) => [
+              `${combinedOperationLabels[operation].key} of ${column}`,
+              isNaN(result.values[columnIndex][operationIndex])
+                ? null
+                : Number(result.values[columnIndex][operationIndex].toFixed(2)),
+            ]),
+          ),
+        ),
+      })),
+      followUpQuestions,
+      confidence: 0.85,
+      usedColumns,
+      operation: "multi",
+    }
+  }
+
+  const results = numericColumns.map((column) => {
+    const values = columnValues(data, column)
+    return {
+      column,
+      count: values.length,
+      values: operations.map((operation) => calculateCombinedOperation(operation, values)),
+    }
+  })
+
+  // One sentence for all columns: "For Revenue, the sum is 10 and the average is 2; for Cost, ..."
+  const columnSentences = results.map((result, resultIndex) => {
+    const statements = operations.map((operation, operationIndex) =>
+      language === "de-DE"
+        ? `${combinedOperationLabels[operation].deNominative} ${formatResult(operation, result.values[operationIndex])}`
+        : `the ${combinedOperationLabels[operation].en} is ${formatResult(operation, result.values[operationIndex])}`,
+    )
+    const intro = language === "de-DE" ? (resultIndex === 0 ? "Für" : "für") : resultIndex === 0 ? "For" : "for"
+    return language === "de-DE"
+      ? `${intro} ${result.column} ist ${joinList(statements)}`
+      : `${intro} ${result.column}, ${joinList(statements)}`
+  })
+
+  return {
+    answer: `${columnSentences.join("; ")}.`,
+    explanation:
+      language === "de-DE"
+        ? `Ich habe ${operationList} für ${results.map((result) => `${result.column} (${result.count} Werte)`).join(", ")} berechnet.`
+        : `I calculated the ${operationList} for ${results.map((result) => `${result.column} (${result.count} values)`).join(", ")}.`,
+    data: results.map((result) => ({
+      Column: result.column,
+      ...Object.fromEntries(
+        operations.map((operation, operationIndex) => [
+          combinedOperationLabels[operation].key,
+          isNaN(result.values[operationIndex]) ? null : Number(result.values[operationIndex].toFixed(2)),
+        ]),
+      ),
+    })),
+    followUpQuestions,
+    confidence: 0.85,
+    usedColumns,
+    operation: "multi",
+  }
+}
+
+const descriptiveStatistics: DescriptiveStatistic[] = [
+  "median",
+  "mode",
+  "stddev",
+  "variance",
+  "quartiles",
+  "iqr",
+  "percentile",
+]
+
+// Percentile of sorted values with linear interpolation (like Excel's PERCENTILE.INC)
+const calculatePercentile = (sortedValues: number[], percentile: number): number => {
+  const position = (percentile / 100) * (sortedValues.length - 1)
+  const lower = Math.floor(position)
+  const upper = Math.ceil(position)
+  return sortedValues[lower] + (sortedValues[upper] - sortedValues[lower]) * (position - lower)
+}
+
+// Read the requested percentile from the query: "90th percentile", "90. Perzentil", "p95"
+const extractPercentile = (query: string): number | null => {
+  const lowerCaseQuery = query.toLowerCase()
+  const match =
+    /(\d+(?:[.,]\d+)?)\s*(?:st|nd|rd|th|\.|%)?[\s-]*(?:percentile|perzentil|percentil|quantile|quantil)/.exec(
+      lowerCaseQuery,
+    ) || /(?:^|\s)p(\d{1,2}(?:[.,]\d+)?)(?!\d)/.exec(lowerCaseQuery)
+  if (!match) return null
+
+  const percentile = Number.parseFloat(match[1].replace(",", "."))
+  return percentile >= 0 && percentile <= 100 ? percentile : null
+}
+
+// English ordinal suffix: 1st, 2nd, 3rd, 11th, 90th
+const toEnglishOrdinal = (num: number): string => {
+  const lastTwo = num % 100
+  if (lastTwo >= 11 && lastTwo <= 13) return `${num}th`
+  return `${num}${{ 1: "st", 2: "nd", 3: "rd" }[num % 10] || "th"}`
+}
+
+// Calculate median, mode, standard deviation, variance, quartiles, IQR or a percentile
+const calculateDescriptiveStatistic = (
+  statistic: DescriptiveStatistic,
+  percentile: number | null,
+  data: any[],
+  mentionedColumns: string[],
+  decimalSeparators: DecimalSeparators,
+  language: Language,
+): QueryResult => {
+  const statisticNames: Record<DescriptiveStatistic, { en: string; de: string }> = {
+    median: { en: "median", de: "den Median" },
+    mode: { en: "most common value", de: "den häufigsten Wert" },
+    stddev: { en: "standard deviation", de: "die Standardabweichung" },
+    variance: { en: "variance", de: "die Varianz" },
+    quartiles: { en: "quartiles", de: "die Quartile" },
+    iqr: { en: "interquartile range", de: "den Interquartilsabstand" },
+    percentile: { en: "percentile", de: "das Perzentil" },
+  }
+
+  if (mentionedColumns.length === 0) {
+    return {
+      answer:
+        language === "de-DE"
+          ? `Bitte geben Sie eine Spalte an, für die Sie ${statisticNames[statistic].de} berechnen möchten.`
+          : `Please specify a column for which you want to calculate the ${statisticNames[statistic].en}.`,
+      explanation: "",
+      data: null,
+      followUpQuestions: [],
+      confidence: 0.5,
+      usedColumns: [],
+      operation: statistic,
+    }
+  }
+
+  const column = mentionedColumns[0]
+  const columnData = data.map((row) => ({ [column]: row[column] })).slice(0, 10)
+
+  // The most common value works for text columns as well
+  if (statistic === "mode") {
+    const frequencies = new Map<string, number>()
+    for (const row of data) {
+      const value = row[column]
+      if (value === undefined || value === null || value === "") continue
+      frequencies.set(String(value), (frequencies.get(String(value)) || 0) + 1)
+    }
+
+    if (frequencies.size === 0) {
+      return {
+        answer:
+          language === "de-DE"
+            ? `Die Spalte ${column} enthält keine Werte oder ist leer.`
+            : `The ${column} column contains no values or is empty.`,
+        explanation: "",
+        data: null,
+        followUpQuestions: [],
+        confidence: 0.7,
+        usedColumns: [column],
+        operation: "mode",
+      }
+    }
+
+    const sortedFrequencies = [...frequencies.entries()].sort((a, b) => b[1] - a[1])
+    const highestCount = sortedFrequencies[0][1]
+    const modes = sortedFrequencies.filter(([, count]) => count === highestCount).map(([value]) => value)
+    const nonEmptyCount = sortedFrequencies.reduce((sum, [, count]) => sum + count, 0)
+    const modeText = modes.slice(0, 3).join(", ")
+
+    return {
+      answer:
+        language === "de-DE"
+          ? modes.length === 1
+            ? `Der häufigste Wert in ${column} ist ${modeText} (${highestCount} Mal).`
+            : `Die häufigsten Werte in ${column} sind ${modeText} (je ${highestCount} Mal).`
+          : modes.length === 1
+            ? `The most common value in ${column} is ${modeText} (${highestCount} times).`
+            : `The most common values in ${column} are ${modeText} (${highestCount} times each).`,
+      explanation:
+        language === "de-DE"
+          ? `Ich habe gezählt, wie oft jeder Wert in der Spalte ${column} vorkommt (${nonEmptyCount} nicht-leere Werte), und den häufigsten ausgewählt.`
+          : `I counted how often each value occurs in the ${column} column (${nonEmptyCount} non-empty values) and picked the most frequent one.`,
+      data: sortedFrequencies.slice(0, 10).map(([value, count]) => ({ [column]: value, Count: count })),
+      followUpQuestions: [
+        language === "de-DE"
+          ? `Was sind die einzigartigen Werte in ${column}?`
+          : `What are the unique values in ${column}?`,
+        language === "de-DE" ? `Wie viele Einträge gibt es in ${column}?` : `How many entries are there in ${column}?`,
+        language === "de-DE" ? "Gib mir einen Überblick über die Daten." : "Give me an overview of the data.",
+      ],
+      confidence: 0.9,
+      usedColumns: [column],
+      operation: "mode",
+    }
+  }
+
+  const values = data
+    .map((row) => readCellNumber(row, column, decimalSeparators))
+    .filter((val) => !isNaN(val))
+    .sort((a, b) => a - b)
+  const minimumCount = statistic === "stddev" || statistic === "variance" ? 2 : 1
+
+  if (values.length < minimumCount) {
+    return {
+      answer:
+        language === "de-DE"
+          ? `Ich konnte nicht genügend numerische Werte in der Spalte ${column} finden.`
+          : `I couldn't find enough numeric values in the ${column} column.`,
+      explanation: "",
+      data: null,
+      followUpQuestions: [],
+      confidence: 0.7,
+      usedColumns: [column],
+      operation: statistic,
+    }
+  }
+
+  const followUpQuestions = [
+    language === "de-DE" ? `Was ist der Durchschnitt von ${column}?` : `What is the average of ${column}?`,
+    statistic === "median"
+      ? language === "de-DE"
+        ? `Was sind die Quartile von ${column}?`
+        : `What are the quartiles of ${column}?`
+      : language === "de-DE"
+        ? `Was ist der Median von ${column}?`
+        : `What is the median of ${column}?`,
+    language === "de-DE"
+      ? `Wie ist die Verteilung der Werte in ${column}?`
+      : `What is the distribution of values in ${column}?`,
+  ]
+  const baseResult = { followUpQuestions, confidence: 0.9, usedColumns: [column], operation: statistic }
+
+  switch (statistic) {
+    case "median": {
+      const median = calculatePercentile(values, 50)
+      return {
+        ...baseResult,
+        answer:
+          language === "de-DE"
+            ? `Der Median von ${column} ist ${formatDecimal(median, language)}.`
+            : `The median of ${column} is ${formatDecimal(median, language)}.`,
+        explanation:
+          language === "de-DE"
+            ? `Ich habe alle ${values.length} Werte in der Spalte ${column} sortiert und den mittleren Wert genommen (bei einer geraden Anzahl den Durchschnitt der beiden mittleren Werte).`
+            : `I sorted all ${values.length} values in the ${column} column and took the middle value (the average of the two middle values for an even count).`,
+        data: columnData,
+      }
+    }
+    case "stddev":
+    case "variance": {
+      const mean = values.reduce((sum, val) => sum + val, 0) / values.length
+      const variance = values.reduce((sum, val) => sum + (val - mean) ** 2, 0) / (values.length - 1)
+      const standardDeviation = Math.sqrt(variance)
+
+      return {
+        ...baseResult,
+        answer:
+          statistic === "stddev"
+            ? language === "de-DE"
+              ? `Die Standardabweichung von ${column} ist ${formatDecimal(standardDeviation, language)}.`
+              : `The standard deviation of ${column} is ${formatDecimal(standardDeviation, language)}.`
+            : language === "de-DE"
+              ? `Die Varianz von ${column} ist ${formatDecimal(variance, language)}.`
+              : `The variance of ${column} is ${formatDecimal(variance, language)}.`,
+        explanation:
+          language === "de-DE"
+            ? `Ich habe die quadrierten Abweichungen der ${values.length} Werte in der Spalte ${column} von ihrem Mittelwert (${formatDecimal(mean, language)}) addiert und durch ${values.length - 1} (n - 1, Stichprobe) geteilt${statistic === "stddev" ? " und daraus die Wurzel gezogen" : ""}.`
+            : `I added up the squared differences between the ${values.length} values in the ${column} column and their mean (${formatDecimal(mean, language)}) and divided by ${values.length - 1} (n - 1, sample)${statistic === "stddev" ? ", then took the square root" : ""}.`,
+        data: columnData,
+      }
+    }
+    case "quartiles":
+    case "iqr": {
+      const q1 = calculatePercentile(values, 25)
+      const q2 = calculatePercentile(values, 50)
+      const q3 = calculatePercentile(values, 75)
+      const summaryData = [
+        { Statistic: "Minimum", [column]: values[0] },
+        { Statistic: "Q1", [column]: Number(q1.toFixed(2)) },
+        { Statistic: "Median", [column]: Number(q2.toFixed(2)) },
+        { Statistic: "Q3", [column]: Number(q3.toFixed(2)) },
+        { Statistic: "Maximum", [column]: values[values.length - 1] },
+      ]
+
+      if (statistic === "iqr") {
+        return {
+          ...baseResult,
+          answer:
+            language === "de-DE"
+              ? `Der Interquartilsabstand von ${column} ist ${formatDecimal(q3 - q1, language)} (Q1 = ${formatDecimal(q1, language)}, Q3 = ${formatDecimal(q3, language)}).`
+              : `The interquartile range of ${column} is ${formatDecimal(q3 - q1, language)} (Q1 = ${formatDecimal(q1, language)}, Q3 = ${formatDecimal(q3, language)}).`,
+          explanation:
+            language === "de-DE"
+              ? `Ich habe das 25. und 75. Perzentil der ${values.length} Werte in der Spalte ${column} berechnet und Q1 von Q3 abgezogen. In diesem Bereich liegt die mittlere Hälfte der Werte.`
+              : `I calculated the 25th and 75th percentiles of the ${values.length} values in the ${column} column and subtracted Q1 from Q3. The middle half of the values lies in this range.`,
+          data: summaryData,
+        }
+      }
+
+      return {
+        ...baseResult,
+        answer:
+          language === "de-DE"
+            ? `Die Quartile von ${column} sind Q1 = ${formatDecimal(q1, language)}, Q2 (Median) = ${formatDecimal(q2, language)} und Q3 = ${formatDecimal(q3, language)}.`
+            : `The quartiles of ${column} are Q1 = ${formatDecimal(q1, language)}, Q2 (median) = ${formatDecimal(q2, language)} and Q3 = ${formatDecimal(q3, language)}.`,
+        explanation:
+          language === "de-DE"
+            ? `Ich habe alle ${values.length} Werte in der Spalte ${column} sortiert und das 25., 50. und 75. Perzentil interpoliert.`
+            : `I sorted all ${values.length} values in the ${column} column and interpolated the 25th, 50th and 75th percentiles.`,
+        data: summaryData,
+      }
+    }
+    case "percentile": {
+      if (percentile === null) {
+        return {
+          ...baseResult,
+          answer:
+            language === "de-DE"
+              ? "Bitte geben Sie an, welches Perzentil Sie berechnen möchten, z.B. das 90. Perzentil."
+              : "Please specify which percentile you want to calculate, e.g. the 90th percentile.",
+          explanation: "",
+          data: null,
+          followUpQuestions: [],
+          confidence: 0.5,
+        }
+      }
+
+      const value = calculatePercentile(values, percentile)
+      return {
+        ...baseResult,
+        answer:
+          language === "de-DE"
+            ? `Das ${percentile}. Perzentil von ${column} ist ${formatDecimal(value, language)}.`
+            : `The ${toEnglishOrdinal(percentile)} percentile of ${column} is ${formatDecimal(value, language)}.`,
+        explanation:
+          language === "de-DE"
+            ? `Ich habe alle ${values.length} Werte in der Spalte ${column} sortiert und den Wert interpoliert, unter dem ${percentile}% der Werte liegen.`
+            : `I sorted all ${values.length} values in the ${column} column and interpolated the value below which ${percentile}% of them fall.`,
+        data: columnData,
+      }
+    }
+  }
+}
+
+// Fewer numeric values than this are listed by frequency instead of binned
+const minHistogramValues = 5
+
+// Analyze the distribution of a column: a frequency table for categories, a histogram for numbers
+const analyzeDistribution = (
+  binRule: QueryPlan["binRule"],
+  data: any[],
+  mentionedColumns: string[],
+  decimalSeparators: DecimalSeparators,
+  language: Language,
+): QueryResult => {
+  if (mentionedColumns.length === 0) {
+    return {
+      answer:
+        language === "de-DE"
+          ? "Bitte geben Sie eine Spalte an, deren Verteilung Sie sehen möchten."
+          : "Please specify a column whose distribution you want to see.",
+      explanation: "",
+      data: null,
+      followUpQuestions: [],
+      confidence: 0.5,
+      usedColumns: [],
+      operation: "distribution",
+    }
+  }
+
+  const column = mentionedColumns[0]
+  const nonEmptyValues = data.map((row) => row[column]).filter((val) => val !== undefined && val !== null && val !== "")
+
+  if (nonEmptyValues.length === 0) {
+    return {
+      answer:
+        language === "de-DE"
+          ? `Die Spalte ${column} enthält keine Werte oder ist leer.`
+          : `The ${column} column contains no values or is empty.`,
+      explanation: "",
+      data: null,
+      followUpQuestions: [],
+      confidence: 0.7,
+      usedColumns: [column],
+      operation: "distribution",
+    }
+  }
+
+  const formatShare = (count: number, total: number) => formatPercentage(count / total, language)
+  const followUpQuestions = [
+    language === "de-DE" ? `Was ist der häufigste Wert in ${column}?` : `What is the most common value in ${column}?`,
+    language === "de-DE" ? `Was ist der Median von ${column}?` : `What is the median of ${column}?`,
+    language === "de-DE" ? "Gib mir einen Überblick über die Daten." : "Give me an overview of the data.",
+  ]
+  const numericValues = data
+    .map((row) => readCellNumber(row, column, decimalSeparators))
+    .filter((val) => !isNaN(val))
+    .sort((a, b) => a - b)
+
+  // Numeric columns get a histogram once there are enough values to bin; a few values read better as a list
+  const isNumeric = isNumericColumn(data, column, decimalSeparators)
+  const usesBins = isNumeric && numericValues.length >= minHistogramValues
+
+  // Sample skewness: positive means a longer tail of high values
+  const n = numericValues.length
+  const mean = numericValues.reduce((sum, val) => sum + val, 0) / n
+  const standardDeviation = Math.sqrt(numericValues.reduce((sum, val) => sum + (val - mean) ** 2, 0) / n)
+  const skewness =
+    standardDeviation > 0 ? numericValues.reduce((sum, val) => sum + ((val - mean) / standardDeviation) ** 3, 0) / n : 0
+  const shape =
+    Math.abs(skewness) < 0.5
+      ? language === "de-DE"
+        ? "annähernd symmetrisch verteilt"
+        : "roughly symmetric"
+      : skewness > 0
+        ? language === "de-DE"
+          ? "rechtsschief (langer Ausläufer zu hohen Werten)"
+          : "right-skewed (a long tail of high values)"
+        : language === "de-DE"
+          ? "linksschief (langer Ausläufer zu niedrigen Werten)"
+          : "left-skewed (a long tail of low values)"
+  const shapeSentence =
+    language === "de-DE"
+      ? `${column} ist ${shape}, die Schiefe beträgt ${formatDecimal(skewness, language)}.`
+      : `${column} is ${shape}, with a skewness of ${formatDecimal(skewness, language)}.`
+
+  if (!usesBins) {
+    const frequencies = new Map<string, number>()
+    for (const value of nonEmptyValues) {
+      frequencies.set(String(value), (frequencies.get(String(value)) || 0) + 1)
+    }
+
+    const sortedFrequencies = [...frequencies.entries()].sort((a, b) => b[1] - a[1])
+    const total = nonEmptyValues.length
+    const [topValue, topCount] = sortedFrequencies[0]
+    const topThreeCount = sortedFrequencies.slice(0, 3).reduce((sum, [, count]) => sum + count, 0)
+
+    return {
+      answer:
+        language === "de-DE"
+          ? `${column} hat ${frequencies.size} verschiedene Werte. Am häufigsten ist ${topValue} mit ${formatShare(topCount, total)}, die drei häufigsten Werte machen ${formatShare(topThreeCount, total)} aus.${isNumeric ? ` ${shapeSentence}` : ""}`
+          : `${column} has ${frequencies.size} different values. The most common is ${topValue} with ${formatShare(topCount, total)}, and the top three values account for ${formatShare(topThreeCount, total)}.${isNumeric ? ` ${shapeSentence}` : ""}`,
+      explanation:
+        language === "de-DE"
+          ? `Ich habe gezählt, wie oft jeder Wert in den ${total} nicht-leeren Einträgen der Spalte ${column} vorkommt, und die Häufigkeiten absteigend sortiert.`
+          : `I counted how often each value occurs in the ${total} non-empty entries of the ${column} column and sorted the frequencies from highest to lowest.`,
+      data: sortedFrequencies.slice(0, 20).map(([value, count]) => ({
+        [column]: value,
+        Count: count,
+        Share: formatShare(count, total),
+      })),
+      followUpQuestions,
+      confidence: 0.9,
+      usedColumns: [column],
+      operation: "distribution",
+    }
+  }
+
+  // Freedman–Diaconis bin width, or Sturges' rule when the IQR is zero or it is asked for
+  const min = numericValues[0]
+  const max = numericValues[n - 1]
+  const iqr = calculatePercentile(numericValues, 75) - calculatePercentile(numericValues, 25)
+  const useSturges = iqr === 0 || binRule === "sturges"
+  const binCount = Math.min(
+    50,
+    Math.max(1, useSturges ? Math.ceil(Math.log2(n)) + 1 : Math.ceil((max - min) / (2 * iqr * Math.pow(n, -1 / 3)))),
+  )
+  const binWidth = (max - min) / binCount || 1
+
+  const binCounts = new Array(binCount).fill(0)
+  for (const value of numericValues) {
+    binCounts[Math.min(binCount - 1, Math.floor((value - min) / binWidth))]++
+  }
+
+  const dominantBin = binCounts.indexOf(Math.max(...binCounts))
+  const binStart = (index: number) => min + index * binWidth
+  const binLabel = (index: number) =>
+    `${formatDecimal(binStart(index), language)} – ${formatDecimal(binStart(index + 1), language)}`
+  const rule = useSturges ? "Sturges" : "Freedman–Diaconis"
+
+  return {
+    answer:
+      language === "de-DE"
+        ? `${shapeSentence} Die meisten Werte (${formatShare(binCounts[dominantBin], n)}) liegen zwischen ${formatDecimal(binStart(dominantBin), language)} und ${formatDecimal(binStart(dominantBin + 1), language)}.`
+        : `${shapeSentence} Most values (${formatShare(binCounts[dominantBin], n)}) fall between ${formatDecimal(binStart(dominantBin), language)} and ${formatDecimal(binStart(dominantBin + 1), language)}.`,
+    explanation:
+      language === "de-DE"
+        ? `Ich habe die ${n} numerischen Werte der Spalte ${column} nach der ${rule}-Regel in ${binCount} gleich breite Klassen (Breite ${formatDecimal(binWidth, language)}) eingeteilt und die Werte pro Klasse gezählt. Die Schiefe misst die Asymmetrie der Verteilung.`
+        : `I split the ${n} numeric values of the ${column} column into ${binCount} equal-width bins (width ${formatDecimal(binWidth, language)}) using the ${rule} rule and counted the values per bin. Skewness measures how asymmetric the distribution is.`,
+    data: binCounts.map((count, index) => ({
+      Bin: binLabel(index),
+      Count: count,
+      Share: formatShare(count, n),
+    })),
+    followUpQuestions,
+    confidence: 0.9,
+    usedColumns: [column],
+    operation: "distribution",
+  }
+}
+
+const descendingRankWords = [
+  "top",
+  "highest",
+  "largest",
+  "biggest",
+  "greatest",
+  "most",
+  "best",
+  "höchsten",
+  "größten",
+  "meisten",
+  "besten",
+  "teuersten",
+]
+const ascendingRankWords = [
+  "bottom",
+  "lowest",
+  "smallest",
+  "least",
+  "fewest",
+  "worst",
+  "cheapest",
+  "niedrigsten",
+  "kleinsten",
+  "geringsten",
+  "wenigsten",
+  "schlechtesten",
+  "günstigsten",
+]
+
+// "most" and "least" also bound values ("at most 100"), so they only rank as a superlative
+// after "the" or the number of rows: "the 3 most expensive", "the least".
+const superlativeOnlyRankWords = ["most", "least"]
+
+// German ordinals that form one word with a superlative: "zweithöchste", "drittgrößten"
+const germanOrdinalPrefixes: Record<string, number> = {
+  zweit: 2,
+  dritt: 3,
+  viert: 4,
+  fünft: 5,
+  sechst: 6,
+  siebt: 7,
+  acht: 8,
+  neunt: 9,
+  zehnt: 10,
+}
+
+// Detect ranking requests such as "top 5", "the three lowest" or "die 10 größten", and single
+// positions such as "the 2nd highest" or "der zweithöchste", which skip the rows before them.
+// Superlatives without a number are left to the minimum and maximum intents.
+const parseRankingRequest = (query: string): { limit: number; descending: boolean; offset: number } | null => {
+  const words = query
+    .toLowerCase()
+    .replace(/(\d+)\.(?=\s+\p{L})/gu, "$1th")
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word.length > 0)
+  const toNumber = (word: string | undefined) =>
+    word === undefined ? null : /^\d+$/.test(word) ? Number(word) : parseNumberWord(word)
+  const toOrdinal = (word: string | undefined) => {
+    const match = word ? /^(\d+)(?:st|nd|rd|th)$/.exec(word) : null
+    return match && Number(match[1]) > 0 ? Number(match[1]) : null
+  }
+
+  for (let i = 0; i < words.length; i++) {
+    const prefix = Object.keys(germanOrdinalPrefixes).find((candidate) => words[i].startsWith(candidate))
+    const superlative = (prefix ? words[i].slice(prefix.length) : words[i]).replace(/(\p{L}{3,}(?:st|ßt))e$/u, "$1en")
+    const descending = descendingRankWords.includes(superlative)
+    if (!descending && !ascendingRankWords.includes(superlative)) continue
+    if (prefix) return { limit: 1, descending, offset: germanOrdinalPrefixes[prefix] - 1 }
+
+    const position = toOrdinal(words[i - 1])
+    if (position !== null) return { limit: 1, descending, offset: position - 1 }
+    if (superlativeOnlyRankWords.includes(words[i]) && words[i - 1] !== "the" && toNumber(words[i - 1]) === null) {
+      continue
+    }
+
+    const limit = [words[i + 1], words[i - 1], words[i - 2]].map(toNumber).find((num) => num !== null && num > 0)
+    if (limit) return { limit, descending, offset: 0 }
+    if (words[i] === "top" || words[i] === "bottom") return { limit: 5, descending, offset: 0 }
+  }
+
+  return null
+}
+
+// Rank rows, or groups of rows, by a numeric column
+const rankRows = (
+  ranking: { limit: number; descending: boolean; offset: number },
+  aggregation: AggregationOperation | null,
+  data: any[],
+  columns: string[],
+  mentionedColumns: string[],
+  decimalSeparators: DecimalSeparators,
+  language: Language,
+): QueryResult => {
+  const { limit, descending, offset } = ranking
+  const mentionedMeasure = mentionedColumns.find((column) => isNumericColumn(data, column, decimalSeparators)) || null
+  const entityColumn =
+    mentionedColumns.find(
+      (column) => column !== mentionedMeasure && !isNumericColumn(data, column, decimalSeparators),
+    ) || null
+
+  // Without a numeric column, entities are ranked by how often they occur ("top 5 countries")
+  const measureColumn =
+    mentionedMeasure ||
+    (entityColumn ? null : columns.find((column) => isNumericColumn(data, column, decimalSeparators)) || null)
+
+  if (!measureColumn && !entityColumn) {
+    return {
+      answer:
+        language === "de-DE"
+          ? "Bitte geben Sie eine Spalte an, nach der sortiert werden soll."
+          : "Please specify a column to rank by.",
+      explanation: "",
+      data: null,
+      followUpQuestions: [],
+      confidence: 0.5,
+      usedColumns: [],
+      operation: "rank",
+    }
+  }
+
+  const orderText =
+    language === "de-DE"
+      ? descending
+        ? "absteigend"
+        : "aufsteigend"
+      : descending
+        ? "from highest to lowest"
+        : "from lowest to highest"
+  const fallbackNote =
+    !mentionedMeasure && measureColumn
+      ? language === "de-DE"
+        ? ` Da keine numerische Spalte genannt wurde, habe ich ${measureColumn} verwendet.`
+        : ` No numeric column was mentioned, so I used ${measureColumn}.`
+      : ""
+  const compare = (a: number, b: number) => (descending ? b - a : a - b)
+  const rankLabel =
+    language === "de-DE" ? (descending ? "Die Top" : "Die letzten") : descending ? "The top" : "The bottom"
+
+  // A ranking from a later position ("the 2nd highest") is named by its positions instead of its size
+  const rankHeadline = (count: number) =>
+    offset === 0
+      ? `${rankLabel} ${count}`
+      : language === "de-DE"
+        ? `Platz ${offset + 1}${count > 1 ? ` bis ${offset + count}` : ""} der ${descending ? "höchsten" : "niedrigsten"}`
+        : `The ${toEnglishOrdinal(offset + 1)}${count > 1 ? ` to ${toEnglishOrdinal(offset + count)}` : ""} ${descending ? "highest" : "lowest"}`
+  const missingPosition = (count: number): QueryResult => ({
+    answer:
+      language === "de-DE"
+        ? `Es gibt nur ${count} Werte, deshalb gibt es keinen Platz ${offset + 1}.`
+        : `There are only ${count} values, so there is no ${toEnglishOrdinal(offset + 1)} place.`,
+    explanation: "",
+    data: null,
+    followUpQuestions: [],
+    confidence: 0.7,
+    usedColumns: measureColumn ? [measureColumn] : [],
+    operation: "rank",
+  })
+
+  if (entityColumn) {
+    const useAverage = measureColumn !== null && aggregation === "average"
+    const groups = new Map<string, number[]>()
+
+    for (const row of data) {
+      const group = row[entityColumn]
+      if (group === undefined || group === null || group === "") continue
+
+      const value = measureColumn ? readCellNumber(row, measureColumn, decimalSeparators) : 1
+      if (isNaN(value)) continue
+
+      groups.set(String(group), [...(groups.get(String(group)) || []), value])
+    }
+
+    const operation: AggregationOperation = !measureColumn ? "count" : useAverage ? "average" : "sum"
+    const ranked = [...groups.entries()]
+      .map(([group, values]) => ({ group, value: aggregateValues(operation, values) }))
+      .sort((a, b) => compare(a.value, b.value))
+      .slice(offset, offset + limit)
+    if (ranked.length === 0) return missingPosition(groups.size)
+    const measure = measureColumn
+      ? useAverage
+        ? language === "de-DE"
+          ? `Durchschnitt von ${measureColumn}`
+          : `average ${measureColumn}`
+        : measureColumn
+      : language === "de-DE"
+        ? "Anzahl der Einträge"
+        : "number of entries"
+    const formatValue = (value: number) => (operation === "count" ? String(value) : formatDecimal(value, language))
+    const rankingText = ranked
+      .map((entry, index) => `${offset + index + 1}. ${entry.group} (${formatValue(entry.value)})`)
+      .join(", ")
+    const englishLabel = aggregationLabels[operation].en
+    const valueKey =
+      operation === "count"
+        ? "Count"
+        : `${englishLabel.charAt(0).toUpperCase()}${englishLabel.slice(1)} of ${measureColumn}`
+
+    return {
+      answer:
+        language === "de-DE"
+          ? `${rankHeadline(ranked.length)} ${entityColumn} nach ${measure}: ${rankingText}.`
+          : `${rankHeadline(ranked.length)} ${entityColumn} by ${measure}: ${rankingText}.`,
+      explanation:
+        language === "de-DE"
+          ? `Ich habe die Zeilen nach ${entityColumn} gruppiert, für jede der ${groups.size} Gruppen ${operation === "count" ? "die Einträge gezählt" : `${aggregationLabels[operation].deAccusative} von ${measureColumn} berechnet`} und die Gruppen ${orderText} sortiert.${fallbackNote}`
+          : `I grouped the rows by ${entityColumn}, calculated the ${aggregationLabels[operation].en} of ${measureColumn || "entries"} for each of the ${groups.size} groups and sorted them ${orderText}.${fallbackNote}`,
+      data: ranked.map((entry, index) => ({
+        Rank: offset + index + 1,
+        [entityColumn]: entry.group,
+        [valueKey]: operation === "count" ? entry.value : Number(entry.value.toFixed(2)),
+      })),
+      followUpQuestions: [
+        language === "de-DE"
+          ? `${descending ? "Die letzten" : "Die Top"} ${limit} ${entityColumn} nach ${measure}`
+          : `${descending ? "Bottom" : "Top"} ${limit} ${entityColumn} by ${measure}`,
+        language === "de-DE"
+          ? `Wie viele Einträge gibt es pro ${entityColumn}?`
+          : `How many entries are there per ${entityColumn}?`,
+        language === "de-DE" ? "Gib mir einen Überblick über die Daten." : "Give me an overview of the data.",
+      ],
+      confidence: mentionedMeasure || !measureColumn ? 0.9 : 0.6,
+      usedColumns: measureColumn ? [measureColumn, entityColumn] : [entityColumn],
+      operation: "rank",
+    }
+  }
+
+  // Rank individual rows, naming each one by its first text column that isn't a date ("Berlin", not
+  // "2024-07-22"); a text column the query names is ranked as groups above
+  const column = measureColumn as string
+  const textColumns = columns.filter((col) => col !== column && !isNumericColumn(data, col, decimalSeparators))
+  const labelColumn = textColumns.find((col) => !isDateColumn(data, col)) || textColumns[0] || null
+  const ranked = data
+    .map((row) => ({ row, value: readCellNumber(row, column, decimalSeparators) }))
+    .filter((entry) => !isNaN(entry.value))
+    .sort((a, b) => compare(a.value, b.value))
+  const topRows = ranked.slice(offset, offset + limit)
+  if (topRows.length === 0) return missingPosition(ranked.length)
+  const rankingText = topRows
+    .map((entry, index) => `${offset + index + 1}. ${labelColumn ? `${entry.row[labelColumn]} ` : ""}(${formatDecimal(entry.value, language)})`)
+    .join(", ")
+  const keptText =
+    language === "de-DE"
+      ? offset === 0
+        ? `die ersten ${topRows.length}`
+        : `${topRows.length === 1 ? "die Zeile" : `die ${topRows.length} Zeilen`} ab Platz ${offset + 1}`
+      : offset === 0
+        ? `the first ${topRows.length}`
+        : `${topRows.length === 1 ? "the row" : `the ${topRows.length} rows`} from place ${offset + 1}`
+
+  return {
+    answer:
+      language === "de-DE"
+        ? `${rankHeadline(topRows.length)} Werte von ${column}: ${rankingText}.`
+        : `${rankHeadline(topRows.length)} ${offset > 0 && topRows.length === 1 ? "value" : "values"} of ${column}: ${rankingText}.`,
+    explanation:
+      language === "de-DE"
+        ? `Ich habe die ${ranked.length} Zeilen mit einem numerischen Wert in ${column} ${orderText} sortiert und ${keptText} behalten.${fallbackNote}`
+        : `I sorted the ${ranked.length} rows with a numeric value in ${column} ${orderText} and kept ${keptText}.${fallbackNote}`,
+    data: topRows.map((entry, index) => ({ Rank: offset + index + 1, ...entry.row })),
+    followUpQuestions: [
+      language === "de-DE" ? `Was ist der Durchschnitt von ${column}?` : `What is the average of ${column}?`,
+      language === "de-DE"
+        ? `${descending ? "Die letzten" : "Die Top"} ${limit} Werte von ${column}`
+        : `${descending ? "Bottom" : "Top"} ${limit} values of ${column}`,
+      language === "de-DE" ? "Gib mir einen Überblick über die Daten." : "Give me an overview of the data.",
+    ],
+    confidence: mentionedMeasure ? 0.9 : 0.6,
+    usedColumns: labelColumn ? [column, labelColumn] : [column],
+    operation: "rank",
+  }
+}
+
+// Collect the rows where both columns hold a number, so that the pairs stay aligned
+const getAlignedPairs = (
+  data: any[],
+  column1: string,
+  column2: string,
+  decimalSeparators: DecimalSeparators,
+): { xs: number[]; ys: number[] } => {
+  const xs: number[] = []
+  const ys: number[] = []
+
+  for (const row of data) {
+    const x = readCellNumber(row, column1, decimalSeparators)
+    const y = readCellNumber(row, column2, decimalSeparators)
+    if (isNaN(x) || isNaN(y)) continue
+
+    xs.push(x)
+    ys.push(y)
+  }
+
+  return { xs, ys }
+}
+
+// Pearson correlation coefficient of two equally long value lists
+const pearsonCorrelation = (xs: number[], ys: number[]): number => {
+  const mean1 = xs.reduce((sum, val) => sum + val, 0) / xs.length
+  const mean2 = ys.reduce((sum, val) => sum + val, 0) / ys.length
+
+  let numerator = 0
+  let denominator1 = 0
+  let denominator2 = 0
+
+  for (let i = 0; i < xs.length; i++) {
+    const diff1 = xs[i] - mean1
+    const diff2 = ys[i] - mean2
+
+    numerator += diff1 * diff2
+    denominator1 += diff1 * diff1
+    denominator2 += diff2 * diff2
+  }
+
+  const denominator = Math.sqrt(denominator1) * Math.sqrt(denominator2)
+  return denominator === 0 ? 0 : numerator / denominator
+}
+
+// Ranks starting at 1, tied values share their average rank
+const rankValues = (values: number[]): number[] => {
+  const order = values.map((value, index) => ({ value, index })).sort((a, b) => a.value - b.value)
+  const ranks = new Array<number>(values.length)
+
+  for (let i = 0; i < order.length;) {
+    let j = i
+    while (j + 1 < order.length && order[j + 1].value === order[i].value) j++
+
+    const averageRank = (i + j) / 2 + 1
+    for (let k = i; k <= j; k++) ranks[order[k].index] = averageRank
+    i = j + 1
+  }
+
+  return ranks
+}
+
+// Spearman rank correlation: Pearson over the ranks, robust to outliers and non-linear trends
+const spearmanCorrelation = (xs: number[], ys: number[]): number => pearsonCorrelation(rankValues(xs), rankValues(ys))
+
+// Describe the strength and direction of a correlation coefficient
+const describeCorrelation = (correlation: number, language: Language): string => {
+  let interpretation = ""
+  if (Math.abs(correlation) < 0.3) {
+    interpretation = language === "de-DE" ? "schwache" : "weak"
+  } else if (Math.abs(correlation) < 0.7) {
+    interpretation = language === "de-DE" ? "moderate" : "moderate"
+  } else {
+    interpretation = language === "de-DE" ? "starke" : "strong"
+  }
+
+  const direction =
+    correlation > 0 ? (language === "de-DE" ? "positive" : "positive") : language === "de-DE" ? "negative" : "negative"
+
+  return `${interpretation} ${direction}`
+}
+
+// Calculate correlation
+const calculateCorrelation = (
+  data: any[],
+  mentionedColumns: string[],
+  decimalSeparators: DecimalSeparators,
+  language: Language,
+): QueryResult => {
+  if (mentionedColumns.length < 2) {
+    return {
+      answer:
+        language === "de-DE"
+          ? "Bitte geben Sie zwei Spalten an, zwischen denen Sie die Korrelation berechnen möchten."
+          : "Please specify two columns between which you want to calculate correlation.",
+      explanation: "",
+      data: null,
+      followUpQuestions: [],
+      confidence: 0.5,
+      usedColumns: mentionedColumns,
+      operation: "correlation",
+    }
+  }
+
+  const column1 = mentionedColumns[0]
+  const column2 = mentionedColumns[1]
+
+  // Only rows where both columns are numeric form a pair
+  const { xs, ys } = getAlignedPairs(data, column1, column2, decimalSeparators)
+
+  if (xs.length < 5) {
+    return {
+      answer:
+        language === "de-DE"
+          ? `Es gibt nicht genügend numerische Daten in ${column1} und ${column2}, um eine Korrelation zu berechnen.`
+          : `There isn't enough numeric data in ${column1} and ${column2} to calculate correlation.`,
+      explanation: "",
+      data: null,
+      followUpQuestions: [],
+      confidence: 0.7,
+      usedColumns: [column1, column2],
+      operation: "correlation",
+    }
+  }
+
+  const correlation = pearsonCorrelation(xs, ys)
+  const rankCorrelation = spearmanCorrelation(xs, ys)
+  const relationship = describeCorrelation(correlation, language)
+
+  return {
+    answer:
+      language === "de-DE"
+        ? `Die Korrelation zwischen ${column1} und ${column2} ist ${formatDecimal(correlation, language)}, was auf eine ${relationship} Beziehung hinweist. Die Rangkorrelation nach Spearman beträgt ${formatDecimal(rankCorrelation, language)}.`
+        : `The correlation between ${column1} and ${column2} is ${formatDecimal(correlation, language)}, indicating a ${relationship} relationship. The Spearman rank correlation is ${formatDecimal(rankCorrelation, language)}.`,
+    explanation:
+      language === "de-DE"
+        ? `Ich habe den Pearson-Korrelationskoeffizienten zwischen den Spalten ${column1} und ${column2} über die ${xs.length} Zeilen berechnet, in denen beide Spalten eine Zahl enthalten. Ein Wert nahe 1 bedeutet eine starke positive Korrelation, ein Wert nahe -1 bedeutet eine starke negative Korrelation, und ein Wert nahe 0 bedeutet keine Korrelation. Spearman vergleicht die Ränge statt der Werte und ist robuster gegenüber Ausreißern.`
+        : `I calculated the Pearson correlation coefficient between the ${column1} and ${column2} columns over the ${xs.length} rows where both columns contain a number. A value close to 1 indicates a strong positive correlation, a value close to -1 indicates a strong negative correlation, and a value close to 0 indicates no correlation. Spearman compares ranks instead of values and is more robust to outliers.`,
+    data: data.map((row) => ({ [column1]: row[column1], [column2]: row[column2] })).slice(0, 10),
+    followUpQuestions: [
+      language === "de-DE" ? `Was ist der Durchschnitt von ${column1}?` : `What is the average of ${column1}?`,
+      language === "de-DE" ? `Was ist der Durchschnitt von ${column2}?` : `What is the average of ${column2}?`,
+      language === "de-DE"
+        ? `Gibt es andere Spalten, die mit ${column1} korrelieren?`
+        : `Are there other columns that correlate with ${column1}?`,
+    ],
+    confidence: 0.9,
+    usedColumns: [column1, column2],
+    operation: "correlation",
+  }
+}
+
+// Correlate every numeric column with every other one, or with a single target column
+const calculateCorrelationMatrix = (
+  data: any[],
+  columns: string[],
+  targetColumn: string | null,
+  decimalSeparators: DecimalSeparators,
+  language: Language,
+): QueryResult => {
+  const numericColumns = columns.filter((column) => isNumericColumn(data, column, decimalSeparators))
+
+  if (numericColumns.length < 2 || (targetColumn && !numericColumns.includes(targetColumn))) {
+    return {
+      answer:
+        language === "de-DE"
+          ? targetColumn
+            ? `${targetColumn} ist keine numerische Spalte oder es gibt keine weiteren numerischen Spalten zum Vergleich.`
+            : "Diese Tabelle hat weniger als zwei numerische Spalten, daher kann ich keine Korrelationen berechnen."
+          : targetColumn
+            ? `${targetColumn} is not a numeric column, or there are no other numeric columns to compare it with.`
+            : "This sheet has fewer than two numeric columns, so I can't calculate correlations.",
+      explanation: "",
+      data: null,
+      followUpQuestions: [],
+      confidence: 0.6,
+      usedColumns: targetColumn ? [targetColumn] : [],
+      operation: "correlation",
+    }
+  }
+
+  const pairs: { column1: string; column2: string; pearson: number; spearman: number; count: number }[] = []
+  for (let i = 0; i < numericColumns.length; i++) {
+    for (let j = i + 1; j < numericColumns.length; j++) {
+      const column1 = numericColumns[i]
+      const column2 = numericColumns[j]
+      if (targetColumn && column1 !== targetColumn && column2 !== targetColumn) continue
+
+      const { xs, ys } = getAlignedPairs(data, column1, column2, decimalSeparators)
+      if (xs.length < 5) continue
+
+      pairs.push({
+        column1,
+        column2,
+        pearson: pearsonCorrelation(xs, ys),
+        spearman: spearmanCorrelation(xs, ys),
+        count: xs.length,
+      })
+    }
+  }
+
+  const ranked = pairs.sort((a, b) => Math.abs(b.pearson) - Math.abs(a.pearson))
+  const explanation =
+    language === "de-DE"
+      ? `Ich habe für ${ranked.length} Paare numerischer Spalten die Korrelation nach Pearson (linear) und Spearman (rangbasiert) berechnet, jeweils nur über die Zeilen, in denen beide Spalten eine Zahl enthalten, und die Paare nach Stärke sortiert.`
+      : `I calculated the Pearson (linear) and Spearman (rank-based) correlation for ${ranked.length} pairs of numeric columns, each over the rows where both columns contain a number, and ranked the pairs by strength.`
+
+  if (ranked.length === 0) {
+    return {
+      answer:
+        language === "de-DE"
+          ? "Es gibt nicht genügend gemeinsame numerische Daten, um Korrelationen zu berechnen."
+          : "There isn't enough overlapping numeric data to calculate correlations.",
+      explanation,
+      data: null,
+      followUpQuestions: [],
+      confidence: 0.6,
+      usedColumns: numericColumns,
+      operation: "correlation",
+    }
+  }
+
+  if (targetColumn) {
+    const others = ranked.map((pair) => ({
+      ...pair,
+      other: pair.column1 === targetColumn ? pair.column2 : pair.column1,
+    }))
+    const strongOnes = others.filter((pair) => Math.abs(pair.pearson) >= 0.3).slice(0, 3)
+    const listText = strongOnes
+      .map(
+        (pair) =>
+          `${pair.other} (${formatDecimal(pair.pearson, language)}, ${describeCorrelation(pair.pearson, language)})`,
+      )
+      .join(", ")
+
+    return {
+      answer:
+        strongOnes.length > 0
+          ? language === "de-DE"
+            ? `Am stärksten korrelieren mit ${targetColumn}: ${listText}.`
+            : `The columns most strongly correlated with ${targetColumn} are: ${listText}.`
+          : language === "de-DE"
+            ? `Keine andere Spalte korreliert mehr als schwach mit ${targetColumn}. Am stärksten ist ${others[0].other} (${formatDecimal(others[0].pearson, language)}).`
+            : `No other column has more than a weak correlation with ${targetColumn}. The strongest is ${others[0].other} (${formatDecimal(others[0].pearson, language)}).`,
+      explanation,
+      data: others.map((pair) => ({
+        Column: pair.other,
+        Pearson: Number(pair.pearson.toFixed(3)),
+        Spearman: Number(pair.spearman.toFixed(3)),
+        Pairs: pair.count,
+      })),
+      followUpQuestions: [
+        language === "de-DE"
+          ? `Wie hängen ${targetColumn} und ${others[0].other} zusammen?`
+          : `What is the correlation between ${targetColumn} and ${others[0].other}?`,
+        language === "de-DE" ? "Zeige die Korrelationsmatrix." : "Show me the correlation matrix.",
+        language === "de-DE" ? `Wie ist der Trend von ${targetColumn}?` : `What is the trend of ${targetColumn}?`,
+      ],
+      confidence: 0.9,
+      usedColumns: [targetColumn, ...others.map((pair) => pair.other)],
+      operation: "correlation",
+    }
+  }
+
+  const listText = ranked
+    .slice(0, 3)
+    .map(
+      (pair) =>
+        `${pair.column1} ${language === "de-DE" ? "und" : "and"} ${pair.column2} (${formatDecimal(pair.pearson, language)}, ${describeCorrelation(pair.pearson, language)})`,
+    )
+    .join(", ")
+
+  // Full Pearson matrix, one row per numeric column
+  const matrix = numericColumns.map((rowColumn) => {
+    const row: Record<string, any> = { Column: rowColumn }
+    for (const column of numericColumns) {
+      const pair = ranked.find(
+        (entry) =>
+          (entry.column1 === rowColumn && entry.column2 === column) ||
+          (entry.column1 === column && entry.column2 === rowColumn),
+      )
+      row[column] = rowColumn === column ? 1 : pair ? Number(pair.pearson.toFixed(3)) : null
+    }
+    return row
+  })
+
+  return {
+    answer:
+      language === "de-DE"
+        ? `Die stärksten Zusammenhänge bestehen zwischen ${listText}.`
+        : `The strongest relationships are between ${listText}.`,
+    explanation,
+    data: matrix,
+    followUpQuestions: [
+      language === "de-DE"
+        ? `Gibt es andere Spalten, die mit ${ranked[0].column1} korrelieren?`
+        : `Are there other columns that correlate with ${ranked[0].column1}?`,
+      language === "de-DE" ? "Gib mir einen Überblick über die Daten." : "Give me an overview of the data.",
+    ],
+    confidence: 0.9,
+    usedColumns: numericColumns,
+    operation: "correlation",
+  }
+}
+
+// Find unique values
+const findUniqueValues = (data: any[], mentionedColumns: string[], language: Language): QueryResult => {
+  if (mentionedColumns.length === 0) {
+    return {
+      answer:
+        language === "de-DE"
+          ? "Bitte geben Sie eine Spalte an, für die Sie einzigartige Werte finden möchten."
+          : "Please specify a column for which you want to find unique values.",
+      explanation: "",
+      data: null,
+      followUpQuestions: [],
+      confidence: 0.5,
+      usedColumns: [],
+      operation: "unique",
+    }
+  }
+
+  const column = mentionedColumns[0]
+  const allValues = data.map((row) => row[column])
+  const uniqueValues = [...new Set(allValues.filter((val) => val !== undefined && val !== null && val !== ""))]
+
+  if (uniqueValues.length === 0) {
+    return {
+      answer:
+        language === "de-DE"
+          ? `Die Spalte ${column} enthält keine Werte oder ist leer.`
+          : `The ${column} column contains no values or is empty.`,
+      explanation: "",
+      data: null,
+      followUpQuestions: [],
+      confidence: 0.7,
+      usedColumns: [column],
+      operation: "unique",
+    }
+  }
+
+  // Limit the number of values to display
+  const displayLimit = 10
+  const displayValues = uniqueValues.slice(0, displayLimit).join(", ")
+  const remainingCount = uniqueValues.length - displayLimit
+
+  let valueList = displayValues
+  if (remainingCount > 0) {
+    valueList += language === "de-DE" ? ` und ${remainingCount} weitere` : ` and ${remainingCount} more`
+  }
+
+  return {
+    answer:
+      language === "de-DE"
+        ? `Die Spalte ${column} enthält ${uniqueValues.length} einzigartige Werte: ${valueList}.`
+        : `The ${column} column contains ${uniqueValues.length} unique values: ${valueList}.`,
+    explanation:
+      language === "de-DE"
+        ? `Ich habe alle einzigartigen Werte in der Spalte ${column} gefunden und gezählt.`
+        : `I found and counted all unique values in the ${column} column.`,
+    data: uniqueValues.slice(0, 20).map((value) => ({ [column]: value })),
+    followUpQuestions: [
+      language === "de-DE" ? `Wie viele Einträge gibt es in ${column}?` : `How many entries are there in ${column}?`,
+      language === "de-DE" ? `Was ist der häufigste Wert in ${column}?` : `What is the most common value in ${column}?`,
+      language === "de-DE"
+        ? `Wie ist die Verteilung der Werte in ${column}?`
+        : `What is the distribution of values in ${column}?`,
+    ],
+    confidence: 0.9,
+    usedColumns: [column],
+    operation: "unique",
+  }
+}
+
+// Comparison phrases in English and German. Longer phrases are listed first so that
+// "greater than or equal to" is not mistaken for "greater than".
+const comparisonOperatorPhrases: { operator: FilterOperator; negated: boolean; phrases: string[] }[] = [
+  {
+    operator: "greaterThanOrEqual",
+    negated: false,
+    phrases: [
+      "greater than or equal to",
+      "more than or equal to",
+      "at least",
+      "größer oder gleich",
+      "größer gleich",
+      "mindestens",
+      ">=",
+    ],
+  },
+  {
+    operator: "lessThanOrEqual",
+    negated: false,
+    phrases: [
+      "less than or equal to",
+      "smaller than or equal to",
+      "no more than",
+      "at most",
+      "kleiner oder gleich",
+      "kleiner gleich",
+      "höchstens",
+      "<=",
+    ],
+  },
+  {
+    operator: "greaterThan",
+    negated: false,
+    phrases: [
+      "greater than",
+      "more than",
+      "higher than",
+      "larger than",
+      "bigger than",
+      "above",
+      "over",
+      "größer als",
+      "mehr als",
+      "höher als",
+      "über",
+      ">",
+    ],
+  },
+  {
+    operator: "lessThan",
+    negated: false,
+    phrases: [
+      "less than",
+      "smaller than",
+      "lower than",
+      "fewer than",
+      "below",
+      "under",
+      "kleiner als",
+      "weniger als",
+      "niedriger als",
+      "unter",
+      "<",
+    ],
+  },
+  {
+    operator: "equals",
+    negated: true,
+    phrases: ["is not", "isn't", "not equal to", "ist nicht", "nicht gleich", "ungleich", "!="],
+  },
+  {
+    operator: "equals",
+    negated: false,
+    phrases: ["equal to", "equals", "gleich", "is", "ist", "="],
+  },
+]
+
+// Words that turn the following condition into an exclusion, in the languages of recognizeIntent
+const exclusionWords = [
+  "exclude",
+  "excluding",
+  "except",
+  "except for",
+  "without",
+  "other than",
+  "apart from",
+  "ignoring",
+  "ausschließen",
+  "ausgenommen",
+  "außer",
+  "ohne",
+  "abgesehen von",
+  "sauf",
+  "sans",
+  "excepté",
+  "hors",
+  "excepto",
+  "sin",
+  "salvo",
+  "menos",
+  "tranne",
+  "senza",
+  "eccetto",
+  "以外",
+  "を除く",
+  "除く",
+  "除了",
+  "不包括",
+  "排除",
+]
+
+// Words that negate a condition inside its clause, or the condition marker that follows them
+const negationWords = [
+  "not",
+  "isn't",
+  "aren't",
+  "doesn't",
+  "don't",
+  "nicht",
+  "kein",
+  "keine",
+  "keinen",
+  "keiner",
+  "pas",
+  "non",
+  "no",
+  "ではない",
+  "でない",
+  "不是",
+  "不在",
+  "非",
+]
+
+const numberPattern = "(-?\\d+(?:[.,]\\d+)?)"
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+
+// Check whether a phrase occurs in the text as a whole word (not inside another word)
+const containsPhrase = (text: string, phrase: string): boolean => findPhrase(text, phrase) !== -1
+
+// Pattern for a phrase as a whole word. Chinese and Japanese are written without spaces,
+// so their phrases match anywhere.
+const wholeWordPattern = (phrase: string, flags = "u"): RegExp =>
+  /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/u.test(phrase)
+    ? new RegExp(escapeRegExp(phrase), flags)
+    : new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(phrase)}(?![\\p{L}\\p{N}])`, flags)
+
+// Find the position of a phrase that occurs as a whole word, or -1
+const findPhrase = (text: string, phrase: string): number => {
+  const match = wholeWordPattern(phrase).exec(text)
+  return match ? match.index : -1
+}
+
+// Like findPhrase, but also accepts plural and inflected endings ("returns", "stornierte")
+const findInflectedPhrase = (text: string, phrase: string): number => {
+  const pattern = new RegExp(
+    `(?<![\\p{L}\\p{N}])${escapeRegExp(phrase)}(?:s|es|e|n|en|er|ed|d)?(?![\\p{L}\\p{N}])`,
+    "u",
+  )
+  const match = pattern.exec(text)
+  return match ? match.index : -1
+}
+
+const parseQueryNumber = (text: string): number => Number.parseFloat(text.replace(",", "."))
+
+// Find where each column is mentioned in the query, preferring the closest matches.
+// Plurals, abbreviations and sound-alikes count too, so "customers" mentions the "Customer" column.
+const findColumnMentions = (query: string, columns: string[], aliases: ColumnAliases = {}): ColumnMatch[] =>
+  resolveColumnMentions(query, columns, aliases)
+
+// A comparison with a number in a text: "greater than 100", "mindestens 5". With `atEnd`, only one
+// that ends the text counts, like the comparison before a column ("orders over 100 Price").
+const parseComparison = (column: string, text: string, atEnd = false): FilterCondition | null => {
+  for (const { operator, negated, phrases } of comparisonOperatorPhrases) {
+    for (const phrase of phrases) {
+      const boundary = /^[\p{L}]/u.test(phrase) ? "(?<![\\p{L}\\p{N}])" : ""
+      const match = new RegExp(
+        `${boundary}${escapeRegExp(phrase)}\\s*${numberPattern}${atEnd ? "\\s*$" : ""}`,
+        "u",
+      ).exec(text)
+      if (match) {
+        return {
+          column,
+          operator,
+          value: parseQueryNumber(match[1]),
+          negated: negated !== negationWords.some((word) => containsPhrase(text.slice(0, match.index), word)),
+        }
+      }
+    }
+  }
+  return null
+}
+
+// Parse the condition that follows a column mention, e.g. " is greater than 100"
+const parseConditionClause = (column: string, clause: string, data: any[]): FilterCondition | null => {
+  const isNegatedBefore = (index: number) => negationWords.some((word) => containsPhrase(clause.slice(0, index), word))
+
+  // Ranges: "between 10 and 20", "zwischen 10 und 20", "from 10 to 20"
+  const rangeMatch = new RegExp(
+    `(?:between|zwischen|from|von)\\s+${numberPattern}\\s+(?:and|und|to|bis)\\s+${numberPattern}`,
+  ).exec(clause)
+  if (rangeMatch) {
+    const lower = parseQueryNumber(rangeMatch[1])
+    const upper = parseQueryNumber(rangeMatch[2])
+    return {
+      column,
+      operator: "between",
+      value: Math.min(lower, upper),
+      upperValue: Math.max(lower, upper),
+      negated: isNegatedBefore(rangeMatch.index),
+    }
+  }
+
+  // Comparisons with a number: "greater than 100", "mindestens 5"
+  const comparison = parseComparison(column, clause)
+  if (comparison) return comparison
+
+  // Values that actually occur in the column: "status cancelled", "city is not Berlin"
+  const distinctValues = [
+    ...new Set(
+      data
+        .map((row) => row[column])
+        .filter((val) => val !== undefined && val !== null && val !== "")
+        .map((val) => String(val)),
+    ),
+  ].sort((a, b) => b.length - a.length)
+
+  for (const value of distinctValues) {
+    if (value.length < 2) continue
+    const index = findInflectedPhrase(clause, value.toLowerCase())
+    if (index !== -1) {
+      return { column, operator: "equals", value, negated: isNegatedBefore(index) }
+    }
+  }
+
+  // Substring matches: "contains express", "enthält GmbH"
+  const containsMatch = /(contains|containing|enthält|enthalten)\s+["']?([^"']+?)["']?(?:\s+(?:and|und)\s|$)/.exec(
+    clause,
+  )
+  if (containsMatch) {
+    return {
+      column,
+      operator: "contains",
+      value: containsMatch[2].trim(),
+      negated: isNegatedBefore(containsMatch.index),
+    }
+  }
+
+  // Quoted values: 'name "Smith"'
+  const quotedMatch = /"([^"]+)"|'([^']+)'/.exec(clause)
+  if (quotedMatch) {
+    return {
+      column,
+      operator: "equals",
+      value: quotedMatch[1] || quotedMatch[2],
+      negated: isNegatedBefore(quotedMatch.index),
+    }
+  }
+
+  // A bare number right after the column: "year 2023"
+  const numberMatch = new RegExp(`^\\s*[:=]?\\s*${numberPattern}(?![\\d])`).exec(clause)
+  if (numberMatch) {
+    return { column, operator: "equals", value: parseQueryNumber(numberMatch[1]), negated: false }
+  }
+
+  return null
+}
+
+// Extract filter conditions from the query, one per mentioned column
+const parseFilterConditions = (
+  query: string,
+  data: any[],
+  columns: string[],
+  aliases: ColumnAliases = {},
+): FilterCondition[] => {
+  const lowerCaseQuery = query.toLowerCase()
+  const mentions = findColumnMentions(query, columns, aliases)
+  const conditions: FilterCondition[] = []
+
+  mentions.forEach((mention, index) => {
+    const clauseEnd = index + 1 < mentions.length ? mentions[index + 1].start : lowerCaseQuery.length
+    const clause = lowerCaseQuery.slice(mention.end, clauseEnd)
+    const prefix = lowerCaseQuery.slice(index > 0 ? mentions[index - 1].end : 0, mention.start)
+
+    const condition =
+      parseConditionClause(mention.column, clause, data) ||
+      parseComparison(mention.column, prefix, true) ||
+      parseNamedValue(mention.column, clause)
+    if (condition) {
+      // "exclude status cancelled" inverts the condition that follows it
+      const excluded = exclusionWords.some((word) => containsPhrase(prefix, word))
+      conditions.push({ ...condition, negated: condition.negated !== excluded })
+    }
+  })
+
+  return conditions
+}
+
+// Words that introduce the condition part of an aggregation query. Strong markers always start
+// a condition; weak ones ("in Berlin", "from Germany") only when a known value follows.
+const strongConditionMarkers = [
+  "where",
+  "whose",
+  "for which",
+  "in which",
+  "which have",
+  "that have",
+  "have",
+  "has",
+  "with",
+  "if",
+  "when",
+  "wo",
+  "wobei",
+  "bei denen",
+  "in denen",
+  "für die",
+  "deren",
+  "dessen",
+  "mit",
+  "wenn",
+  "falls",
+]
+const weakConditionMarkers = ["in", "from", "for", "at", "aus", "für", "im", "bei", "auf"]
+
+// Words after a column name that don't name a value of it ("Price where …", "City and Amount")
+const nonValueWords = [
+  ...strongConditionMarkers,
+  ...weakConditionMarkers,
+  ...exclusionWords,
+  ...negationWords,
+  "and",
+  "und",
+  "or",
+  "oder",
+  "by",
+  "nach",
+  "per",
+  "pro",
+  "row",
+  "rows",
+  "zeile",
+  "zeilen",
+  "column",
+  "spalte",
+]
+
+// A value the column doesn't contain, named right after the column or after "is":
+// "exclude status cancelled", "city ist nicht Paris"
+const parseNamedValue = (column: string, clause: string): FilterCondition | null => {
+  const match =
+    /^\s*(?:(?:is|ist|equals|gleich)\s+|[:=]\s*)?(?:(not|nicht)\s+)?([\p{L}\p{N}][\p{L}\p{N}'-]*(?:\s+[\p{L}\p{N}][\p{L}\p{N}'-]*){0,2}?)\s*(?:\s(?:and|und|or|oder)\s.*|[?.!,].*)?$/u.exec(
+      clause,
+    )
+  if (!match || match[2].split(/\s+/).some((word) => nonValueWords.includes(word))) return null
+  return { column, operator: "equals", value: match[2], negated: match[1] !== undefined }
+}
+
+// Extract the conditions of an aggregation query and the text naming its target columns
+const parseWhereConditions = (
+  query: string,
+  data: any[],
+  columns: string[],
+  decimalSeparators: DecimalSeparators,
+  aliases: ColumnAliases = {},
+): { conditions: FilterCondition[]; targetText: string } => {
+  const lowerCaseQuery = query.toLowerCase()
+
+  // Every occurrence of a marker, longer markers first where they overlap
+  const findMarkers = (markers: string[]) => {
+    const found: { marker: string; index: number }[] = []
+    for (const marker of [...markers].sort((a, b) => b.length - a.length)) {
+      for (const match of lowerCaseQuery.matchAll(wholeWordPattern(marker, "gu"))) {
+        const index = match.index as number
+        if (found.some((other) => index < other.index + other.marker.length && index + marker.length > other.index)) {
+          continue
+        }
+        found.push({ marker, index })
+      }
+    }
+    return found.sort((a, b) => a.index - b.index)
+  }
+
+  // Conditions of one part of the query, with or without a column name ("average age of customers in Berlin")
+  const parseSegment = (segmentText: string): FilterCondition[] => {
+    const conditions = parseFilterConditions(segmentText, data, columns, aliases)
+    const constrainedColumns = conditions.map((condition) => condition.column)
+    for (const column of columns) {
+      if (constrainedColumns.includes(column) || isNumericColumn(data, column, decimalSeparators)) continue
+
+      const condition = parseConditionClause(column, segmentText.toLowerCase(), data)
+      if (condition && condition.operator === "equals" && typeof condition.value === "string") {
+        conditions.push(condition)
+      }
+    }
+    return conditions
+  }
+
+  // Exclusion markers ("excluding returns", "ohne stornierte") work with both kinds of markers
+  for (const markers of [
+    [...strongConditionMarkers, ...exclusionWords],
+    [...weakConditionMarkers, ...exclusionWords],
+  ]) {
+    const found = findMarkers(markers)
+    if (found.length === 0) continue
+
+    // Each marker starts a part that ends at the next marker. Exclusion markers and a negation
+    // right before a marker ("not in Germany", "nicht aus Berlin") invert the conditions of that part.
+    const conditions: FilterCondition[] = []
+    found.forEach((occurrence, index) => {
+      const previousEnd = index > 0 ? found[index - 1].index + found[index - 1].marker.length : 0
+      const precedingText = lowerCaseQuery.slice(previousEnd, occurrence.index)
+      const excluded =
+        exclusionWords.includes(occurrence.marker) ||
+        negationWords.some((word) => new RegExp(`${wholeWordPattern(word).source}\\s*$`, "u").test(precedingText))
+      const segmentEnd = index + 1 < found.length ? found[index + 1].index : query.length
+
+      for (const condition of parseSegment(query.slice(occurrence.index + occurrence.marker.length, segmentEnd))) {
+        conditions.push({ ...condition, negated: condition.negated !== excluded })
+      }
+    })
+
+    if (conditions.length > 0) {
+      return { conditions, targetText: query.slice(0, found[0].index) }
+    }
+  }
+
+  return { conditions: [], targetText: query }
+}
+
+// Add the conditions of a scoped aggregation to its answer, explanation and used columns
+const describeWhereConditions = (
+  result: QueryResult,
+  conditions: FilterCondition[],
+  matchingRowCount: number,
+  totalRowCount: number,
+  language: Language,
+): QueryResult => {
+  const conditionText = conditions
+    .map((condition) => describeFilterCondition(condition, language))
+    .join(language === "de-DE" ? " und " : " and ")
+
+  // Negated conditions are also named as what they leave out
+  const exclusionText = conditions
+    .filter((condition) => condition.negated)
+    .map((condition) => describeFilterCondition({ ...condition, negated: false }, language))
+    .join(language === "de-DE" ? " oder " : " or ")
+  const exclusionNote = exclusionText
+    ? language === "de-DE"
+      ? ` Ausgeschlossen wurden Zeilen, für die gilt: ${exclusionText}.`
+      : ` Excluded were the rows where ${exclusionText}.`
+    : ""
+
+  return {
+    ...result,
+    answer:
+      language === "de-DE"
+        ? `${result.answer} Berücksichtigt wurden ${matchingRowCount} Zeilen, für die gilt: ${conditionText}.`
+        : `${result.answer} This covers the ${matchingRowCount} rows where ${conditionText}.`,
+    explanation:
+      language === "de-DE"
+        ? `Vor der Berechnung habe ich nur die ${matchingRowCount} von ${totalRowCount} Zeilen behalten, für die gilt: ${conditionText}.${exclusionNote} ${result.explanation}`
+        : `Before calculating, I kept only the ${matchingRowCount} of ${totalRowCount} rows where ${conditionText}.${exclusionNote} ${result.explanation}`,
+    usedColumns: [...new Set([...result.usedColumns, ...conditions.map((condition) => condition.column)])],
+  }
+}
+
+// Check a single row against a filter condition
+const matchesFilterCondition = (
+  row: any,
+  condition: FilterCondition,
+  decimalSeparators: DecimalSeparators,
+): boolean => {
+  const cellValue = row[condition.column]
+  let matches = false
+
+  if (cellValue !== undefined && cellValue !== null && cellValue !== "") {
+    const numericValue = readCellNumber(row, condition.column, decimalSeparators)
+
+    switch (condition.operator) {
+      case "equals":
+        matches =
+          typeof condition.value === "number"
+            ? numericValue === condition.value
+            : String(cellValue).toLowerCase() === condition.value.toLowerCase()
+        break
+      case "greaterThan":
+        matches = numericValue > Number(condition.value)
+        break
+      case "greaterThanOrEqual":
+        matches = numericValue >= Number(condition.value)
+        break
+      case "lessThan":
+        matches = numericValue < Number(condition.value)
+        break
+      case "lessThanOrEqual":
+        matches = numericValue <= Number(condition.value)
+        break
+      case "between":
+        matches = numericValue >= Number(condition.value) && numericValue <= Number(condition.upperValue)
+        break
+      case "contains":
+        matches = String(cellValue).toLowerCase().includes(String(condition.value).toLowerCase())
+        break
+      case "withinDates":
+        matches = condition.dateRange !== undefined && isWithinDateRange(cellValue, condition.dateRange)
+        break
+    }
+  }
+
+  return condition.negated ? !matches : matches
+}
+
+// Operator wording for explanations: [positive, negated]
+const filterOperatorLabels: Record<FilterOperator, { en: [string, string]; de: [string, string] }> = {
+  equals: { en: ["is", "is not"], de: ["ist", "ist nicht"] },
+  greaterThan: { en: ["is greater than", "is not greater than"], de: ["ist größer als", "ist nicht größer als"] },
+  greaterThanOrEqual: { en: ["is at least", "is not at least"], de: ["ist mindestens", "ist nicht mindestens"] },
+  lessThan: { en: ["is less than", "is not less than"], de: ["ist kleiner als", "ist nicht kleiner als"] },
+  lessThanOrEqual: { en: ["is at most", "is not at most"], de: ["ist höchstens", "ist nicht höchstens"] },
+  between: { en: ["is between", "is not between"], de: ["liegt zwischen", "liegt nicht zwischen"] },
+  contains: { en: ["contains", "does not contain"], de: ["enthält", "enthält nicht"] },
+  withinDates: { en: ["is within", "is not within"], de: ["liegt im Zeitraum", "liegt nicht im Zeitraum"] },
+}
+
+// Describe a filter condition in words, e.g. "price is greater than 100"
+export const describeFilterCondition = (condition: FilterCondition, language: Language): string => {
+  const labels =
+    language === "de-DE" ? filterOperatorLabels[condition.operator].de : filterOperatorLabels[condition.operator].en
+  const label = condition.negated ? labels[1] : labels[0]
+  const value =
+    condition.operator === "between"
+      ? `${condition.value} ${language === "de-DE" ? "und" : "and"} ${condition.upperValue}`
+      : condition.operator === "withinDates" && condition.dateRange
+        ? formatDateRange(condition.dateRange, language)
+        : String(condition.value)
+
+  return `${condition.column} ${label} ${value}`
+}
+
+// Filter rows by one or more conditions
+const filterRows = (
+  conditions: FilterCondition[],
+  data: any[],
+  decimalSeparators: DecimalSeparators,
+  language: Language,
+): QueryResult => {
+  if (conditions.length === 0) {
+    return {
+      answer:
+        language === "de-DE"
+          ? "Bitte geben Sie eine Spalte und eine Bedingung an, nach der Sie filtern möchten, z.B. Preis größer als 100."
+          : "Please specify a column and a condition to filter by, e.g. price greater than 100.",
+      explanation: "",
+      data: null,
+      followUpQuestions: [],
+      confidence: 0.5,
+      usedColumns: [],
+      operation: "filter",
+    }
+  }
+
+  const matchingRows = data.filter((row) =>
+    conditions.every((condition) => matchesFilterCondition(row, condition, decimalSeparators)),
+  )
+  const conditionText = conditions
+    .map((condition) => describeFilterCondition(condition, language))
+    .join(language === "de-DE" ? " und " : " and ")
+  const usedColumns = [...new Set(conditions.map((condition) => condition.column))]
+  const displayLimit = 50
+
+  if (matchingRows.length === 0) {
+    return {
+      answer:
+        language === "de-DE"
+          ? `Keine Zeilen erfüllen die Bedingung: ${conditionText}.`
+          : `No rows match the condition: ${conditionText}.`,
+      explanation:
+        language === "de-DE"
+          ? `Ich habe alle ${data.length} Zeilen mit der Bedingung "${conditionText}" gefiltert, aber keine Übereinstimmungen gefunden.`
+          : `I filtered all ${data.length} rows with the condition "${conditionText}" but found no matches.`,
+      data: null,
+      followUpQuestions: [
+        language === "de-DE"
+          ? `Was sind die einzigartigen Werte in ${usedColumns[0]}?`
+          : `What are the unique values in ${usedColumns[0]}?`,
+        language === "de-DE" ? "Gib mir einen Überblick über die Daten." : "Give me an overview of the data.",
+      ],
+      confidence: 0.8,
+      usedColumns,
+      operation: "filter",
+    }
+  }
+
+  const share = formatPercentage(matchingRows.length / data.length, language)
+
+  // Summarise the range of the first numeric condition column within the matching rows
+  let summary = ""
+  const numericColumn = conditions.find(
+    (condition) => condition.operator !== "equals" && condition.operator !== "contains",
+  )?.column
+  if (numericColumn) {
+    const values = matchingRows
+      .map((row) => readCellNumber(row, numericColumn, decimalSeparators))
+      .filter((val) => !isNaN(val))
+    if (values.length > 0) {
+      const min = formatDecimal(Math.min(...values), language)
+      const max = formatDecimal(Math.max(...values), language)
+      summary =
+        language === "de-DE"
+          ? ` ${numericColumn} reicht in diesen Zeilen von ${min} bis ${max}.`
+          : ` In these rows, ${numericColumn} ranges from ${min} to ${max}.`
+    }
+  }
+
+  // A condition every row meets ("exclude status cancelled" when nothing is cancelled) keeps them all
+  const keepsAllRows = matchingRows.length === data.length
+
+  return {
+    answer: keepsAllRows
+      ? language === "de-DE"
+        ? `Alle ${data.length} Zeilen bleiben übrig, denn für jede gilt: ${conditionText}.${summary}`
+        : `All ${data.length} rows remain, because every row matches: ${conditionText}.${summary}`
+      : language === "de-DE"
+        ? `Ich habe ${matchingRows.length} Zeilen gefunden, für die gilt: ${conditionText}. Das sind ${share} aller ${data.length} Zeilen.${summary}`
+        : `I found ${matchingRows.length} rows where ${conditionText}. That is ${share} of all ${data.length} rows.${summary}`,
+    explanation:
+      language === "de-DE"
+        ? `Ich habe jede Zeile mit der Bedingung "${conditionText}" geprüft und ${matchingRows.length} Treffer behalten.${matchingRows.length > displayLimit ? ` Die Tabelle zeigt die ersten ${displayLimit}.` : ""}`
+        : `I checked every row against the condition "${conditionText}" and kept the ${matchingRows.length} matches.${matchingRows.length > displayLimit ? ` The table shows the first ${displayLimit}.` : ""}`,
+    data: matchingRows.slice(0, displayLimit),
+    followUpQuestions: [
+      language === "de-DE" ? `Wie viele Einträge gibt es insgesamt?` : `How many entries are there in total?`,
+      language === "de-DE"
+        ? `Was ist der Durchschnitt von ${usedColumns[0]}?`
+        : `What is the average of ${usedColumns[0]}?`,
+      language === "de-DE"
+        ? `Was sind die einzigartigen Werte in ${usedColumns[0]}?`
+        : `What are the unique values in ${usedColumns[0]}?`,
+    ],
+    confidence: 0.9,
+    usedColumns,
+    operation: "filter",
+  }
+}
+
+// Split a formatted cell such as "1.234,56 €", "(1,200)", "-$3.50", "12,5 %" or "3 kg" into its sign and digits.
+// Currency symbols and codes, percent signs and short units are dropped. Returns null for anything else.
+const splitFormattedNumber = (value: string): { negative: boolean; digits: string } | null => {
+  let text = value
+    .trim()
+    .replace(/[\u00a0\u202f\u2009']/g, " ")
+    .replace(/^[−–]/, "-")
+  let negative = false
+
+  // Accounting negatives: "(1,200)" and a trailing minus "1.234-"
+  if (/^\(.*\)$/.test(text)) {
+    negative = true
+    text = text.slice(1, -1).trim()
+  } else if (/\d\s*-$/.test(text)) {
+    negative = true
+    text = text.slice(0, -1).trim()
+  }
+
+  const match =
+    /^([-+]?)\s*(?:\p{Sc}|[A-Z]{3}(?![A-Za-z]))?\s*([-+]?)\s*(\d(?:[\d .,]*\d)?)\s*(?:%|‰|\p{Sc}|[\p{L}°²³/.]{1,8})?$/u.exec(
+      text,
+    )
+  if (!match) return null
+
+  return { negative: negative !== (match[1] === "-" || match[2] === "-"), digits: match[3] }
+}
+
+// Which separator a single number uses as decimal point, if it tells at all ("12,5" does, "1.234" doesn't)
+const findDecimalSeparator = (digits: string): "." | "," | null => {
+  const lastDot = digits.lastIndexOf(".")
+  const lastComma = digits.lastIndexOf(",")
+  if (lastDot !== -1 && lastComma !== -1) return lastDot > lastComma ? "." : ","
+
+  const separator = lastDot !== -1 ? "." : lastComma !== -1 ? "," : null
+  if (!separator) return null
+  if (digits.split(separator).length > 2) return separator === "." ? "," : "."
+  return digits.length - digits.indexOf(separator) - 1 === 3 ? null : separator
+}
+
+// Parse a cell as a number, also when it's formatted for display. Ambiguous values such as "1.234"
+// are read with the given decimal separator. Returns NaN if the cell isn't a number.
+export const parseCellNumber = (value: any, decimalSeparator: "." | "," = "."): number => {
+  if (typeof value === "number") return Number.isFinite(value) ? value : NaN
+  if (typeof value !== "string") return NaN
+
+  const parts = splitFormattedNumber(value)
+  if (!parts) return NaN
+
+  const separator = findDecimalSeparator(parts.digits) ?? decimalSeparator
+  const decimalIndex = parts.digits.lastIndexOf(separator)
+  const hasDecimals = decimalIndex !== -1 && parts.digits.split(separator).length === 2
+  const integerPart = hasDecimals ? parts.digits.slice(0, decimalIndex) : parts.digits
+  const fractionPart = hasDecimals ? parts.digits.slice(decimalIndex + 1) : ""
+
+  // Thousands separators must group by three: "1.234.567" and "1 234" are numbers, "15.01.2024" isn't
+  const groups = integerPart.split(/[ .,]/)
+  if (groups.length > 1 && (groups[0].length > 3 || groups.slice(1).some((group) => group.length !== 3))) {
+    return NaN
+  }
+  if (!/^\d*$/.test(fractionPart)) return NaN
+
+  const number = Number(`${groups.join("")}${fractionPart ? `.${fractionPart}` : ""}`)
+  return parts.negative ? -number : number
+}
+
+// The decimal separator of each column of a sheet, decided from all of its rows by the values that are
+// unambiguous, and by the UI language where they don't tell ("1.500 €" is 1500 in German). Calculations on
+// filtered rows are passed the separators of their sheet, so "1.500 €" is read the same whether or not
+// "1.234,56 €" is among them.
+export const getColumnDecimalSeparators = (rows: any[], language: Language): DecimalSeparators => {
+  const columns = rows.length > 0 ? Object.keys(rows[0]) : []
+  const separators: DecimalSeparators = {}
+  for (const column of columns) {
+    let commaVotes = 0
+    let dotVotes = 0
+    for (const row of rows) {
+      const value = row[column]
+      if (typeof value !== "string") continue
+      const parts = splitFormattedNumber(value)
+      const separator = parts ? findDecimalSeparator(parts.digits) : null
+      if (separator === ",") commaVotes++
+      else if (separator === ".") dotVotes++
+    }
+    separators[column] =
+      commaVotes !== dotVotes ? (commaVotes > dotVotes ? "," : ".") : language === "de-DE" ? "," : "."
+  }
+  return separators
+}
+
+// Read the number in a row's cell, using the number format of its column
+const readCellNumber = (row: any, column: string, decimalSeparators: DecimalSeparators): number =>
+  parseCellNumber(row[column], decimalSeparators[column] || ".")
+
+// Cells of numeric columns that hold something other than a number ("n/a", "—"); calculations skip them
+const findUnparseableCells = (data: any[], column: string, decimalSeparators: DecimalSeparators): any[] =>
+  data
+    .filter((row) => row[column] !== undefined && row[column] !== null && row[column] !== "")
+    .filter((row) => isNaN(readCellNumber(row, column, decimalSeparators)))
+    .map((row) => row[column])
+
+// Check whether most non-empty values of a column are numbers
+const isNumericColumn = (data: any[], column: string, decimalSeparators: DecimalSeparators): boolean => {
+  const rows = data.filter((row) => row[column] !== undefined && row[column] !== null && row[column] !== "")
+  if (rows.length === 0) return false
+
+  const numericCount = rows.filter((row) => !isNaN(readCellNumber(row, column, decimalSeparators))).length
+  return numericCount > rows.length * 0.5
+}
+
+// Parse a cell value as a date. Handles Date objects (cellDates), ISO, German and US formats.
+const parseDateValue = (value: any): Date | null => {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : value
+  }
+  if (typeof value !== "string") return null
+
+  const text = value.trim()
+  const toFullYear = (year: string) => (year.length === 2 ? 2000 + Number(year) : Number(year))
+  const makeDate = (year: number, month: number, day: number) =>
+    month >= 1 && month <= 12 && day >= 1 && day <= 31 ? new Date(year, month - 1, day) : null
+
+  // 2024-01-15
+  let match = /^(\d{4})-(\d{1,2})-(\d{1,2})/.exec(text)
+  if (match) return makeDate(Number(match[1]), Number(match[2]), Number(match[3]))
+
+  // 15.01.2024 or 15.1.24
+  match = /^(\d{1,2})\.(\d{1,2})\.(\d{4}|\d{2})(?!\d)/.exec(text)
+  if (match) return makeDate(toFullYear(match[3]), Number(match[2]), Number(match[1]))
+
+  // 1/15/2024 or 1/15/24
+  match = /^(\d{1,2})\/(\d{1,2})\/(\d{4}|\d{2})(?!\d)/.exec(text)
+  if (match) return makeDate(toFullYear(match[3]), Number(match[1]), Number(match[2]))
+
+  // Written dates such as "March 5, 2024"
+  if (/[a-z]/i.test(text) && /\d{4}/.test(text)) {
+    const timestamp = Date.parse(text)
+    return isNaN(timestamp) ? null : new Date(timestamp)
+  }
+
+  return null
+}
+
+// Find the date column of the sheet, preferring columns mentioned in the query
+const findDateColumn = (data: any[], columns: string[], mentionedColumns: string[]): string | null =>
+  mentionedColumns.find((column) => isDateColumn(data, column)) ||
+  columns.find((column) => isDateColumn(data, column)) ||
+  null
+
+// Check whether most of the first values of a column are dates
+const isDateColumn = (data: any[], column: string): boolean => {
+  const values = data
+    .slice(0, 20)
+    .map((row) => row[column])
+    .filter((val) => val !== undefined && val !== null && val !== "")
+  return values.length > 0 && values.filter((val) => parseDateValue(val) !== null).length > values.length * 0.5
+}
+
+// Month names in English and German, including common abbreviations
+const monthNumbers: Record<string, number> = {
+  january: 0,
+  jan: 0,
+  januar: 0,
+  jänner: 0,
+  february: 1,
+  feb: 1,
+  februar: 1,
+  march: 2,
+  märz: 2,
+  maerz: 2,
+  april: 3,
+  apr: 3,
+  may: 4,
+  mai: 4,
+  june: 5,
+  juni: 5,
+  july: 6,
+  juli: 6,
+  august: 7,
+  aug: 7,
+  september: 8,
+  sept: 8,
+  october: 9,
+  oct: 9,
+  oktober: 9,
+  okt: 9,
+  november: 10,
+  nov: 10,
+  december: 11,
+  dec: 11,
+  dezember: 11,
+  dez: 11,
+}
+
+// Calendar units of relative expressions ("last quarter", "letzte Woche", "the past 30 days")
+const dateUnitWords: Record<TimeGranularity, string[]> = {
+  day: ["days", "day", "tagen", "tage", "tag"],
+  week: ["weeks", "week", "wochen", "woche"],
+  month: ["months", "month", "monaten", "monate", "monats", "monat"],
+  quarter: ["quarters", "quarter", "quartalen", "quartale", "quartals", "quartal"],
+  year: ["years", "year", "jahren", "jahre", "jahres", "jahr"],
+}
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate())
+const endOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate(), 23, 59, 59, 999)
+
+// The calendar period (week from Monday, month, quarter, year) that contains a date
+const getCalendarPeriod = (date: Date, unit: TimeGranularity): { start: Date; end: Date } => {
+  const year = date.getFullYear()
+  switch (unit) {
+    case "day":
+      return { start: startOfDay(date), end: endOfDay(date) }
+    case "week": {
+      const start = new Date(year, date.getMonth(), date.getDate() - ((date.getDay() + 6) % 7))
+      return { start, end: endOfDay(new Date(start.getFullYear(), start.getMonth(), start.getDate() + 6)) }
+    }
+    case "month":
+      return { start: new Date(year, date.getMonth(), 1), end: endOfDay(new Date(year, date.getMonth() + 1, 0)) }
+    case "quarter": {
+      const firstMonth = Math.floor(date.getMonth() / 3) * 3
+      return { start: new Date(year, firstMonth, 1), end: endOfDay(new Date(year, firstMonth + 3, 0)) }
+    }
+    case "year":
+      return { start: new Date(year, 0, 1), end: endOfDay(new Date(year, 11, 31)) }
+  }
+}
+
+// Move a date by a number of calendar units
+const shiftDate = (date: Date, unit: TimeGranularity, amount: number): Date => {
+  const shifted = new Date(date)
+  if (unit === "day") shifted.setDate(shifted.getDate() + amount)
+  else if (unit === "week") shifted.setDate(shifted.getDate() + amount * 7)
+  else if (unit === "month") shifted.setMonth(shifted.getMonth() + amount)
+  else if (unit === "quarter") shifted.setMonth(shifted.getMonth() + amount * 3)
+  else shifted.setFullYear(shifted.getFullYear() + amount)
+  return shifted
+}
+
+// Find a time range in the query: relative ("last quarter", "letzte Woche", "the past 30 days"),
+// absolute ("in March 2024", "Q1 2024", "between 1 May and 15 June") or open ("since January").
+// Returns the range and where the expression is in the query, or null.
+const parseDateExpression = (
+  query: string,
+  today: Date = new Date(),
+): { start: Date; end: Date; text: string; index: number } | null => {
+  const lowerCaseQuery = query.toLowerCase()
+  const monthPattern = `(?:${Object.keys(monthNumbers)
+    .sort((a, b) => b.length - a.length)
+    .join("|")})(?![\\p{L}])`
+  const unitPattern = Object.values(dateUnitWords).flat().join("|")
+  const leadPattern =
+    "(?<![\\p{L}])(?:(?:in|during|over|within|for|im|in den|in der|während der|während des)\\s+)?(?:the\\s+|den\\s+|der\\s+|dem\\s+)?"
+  const findUnit = (word: string) =>
+    (Object.keys(dateUnitWords) as TimeGranularity[]).find((unit) =>
+      dateUnitWords[unit].includes(word),
+    ) as TimeGranularity
+
+  // Dates without a year are in the current year, or last year if that would be in the future
+  const datePattern =
+    `(\\d{4}-\\d{1,2}-\\d{1,2}|\\d{1,2}\\.\\d{1,2}\\.\\d{2,4}|\\d{1,2}\\.\\d{1,2}\\.(?!\\d)|\\d{1,2}\\/\\d{1,2}\\/\\d{2,4}` +
+    `|\\d{1,2}(?:st|nd|rd|th|\\.)?\\s+(?:of\\s+)?${monthPattern}(?:,?\\s+\\d{4})?` +
+    `|${monthPattern}\\s+\\d{1,2}(?:st|nd|rd|th|(?!\\d))(?:,?\\s+\\d{4})?` +
+    `|${monthPattern}(?:\\s+\\d{4})?|\\d{4})`
+  const readDate = (text: string, fallbackYear?: number): { start: Date; end: Date } | null => {
+    const numericDate = parseDateValue(text)
+    if (numericDate && /^\d/.test(text) && !/^\d{4}$/.test(text)) {
+      return { start: startOfDay(numericDate), end: endOfDay(numericDate) }
+    }
+    if (/^\d{4}$/.test(text)) {
+      const year = Number(text)
+      return year >= 1900 && year <= 2100 ? getCalendarPeriod(new Date(year, 0, 1), "year") : null
+    }
+
+    // "1.3." is a German day and month without a year
+    const dayAndMonth = /^(\d{1,2})\.(\d{1,2})\.$/.exec(text)
+    if (dayAndMonth) {
+      const [day, monthNumber] = [Number(dayAndMonth[1]), Number(dayAndMonth[2])]
+      if (day < 1 || day > 31 || monthNumber < 1 || monthNumber > 12) return null
+      let year = fallbackYear ?? today.getFullYear()
+      const makeDay = () => getCalendarPeriod(new Date(year, monthNumber - 1, day), "day")
+      if (fallbackYear === undefined && makeDay().start > today) year--
+      return makeDay()
+    }
+
+    const month = Object.entries(monthNumbers).find(([name]) =>
+      new RegExp(`(?<![\\p{L}])${name}(?![\\p{L}])`, "u").test(text),
+    )
+    if (!month) return null
+    const yearMatch = /\d{4}/.exec(text)
+    const dayMatch = /(?<!\d)(\d{1,2})(?!\d)/.exec(text.replace(/\d{4}/, ""))
+    let year = yearMatch ? Number(yearMatch[0]) : (fallbackYear ?? today.getFullYear())
+    const makeRange = () =>
+      dayMatch
+        ? getCalendarPeriod(new Date(year, month[1], Number(dayMatch[1])), "day")
+        : getCalendarPeriod(new Date(year, month[1], 1), "month")
+    if (!yearMatch && fallbackYear === undefined && makeRange().start > today) year--
+    return makeRange()
+  }
+
+  // "between 1 May and 15 June", "from March to May 2024", "zwischen dem 1. Mai und dem 15. Juni", "vom 1.3. bis 15.4."
+  let match = new RegExp(
+    `(?<![\\p{L}])(?:between|from|zwischen|vom|von)\\s+(?:the\\s+|dem\\s+)?${datePattern}\\s+(?:and|to|until|und|bis)\\s+(?:the\\s+|dem\\s+|zum\\s+)?${datePattern}`,
+    "u",
+  ).exec(lowerCaseQuery)
+  if (match) {
+    const endYear = /\d{4}/.exec(match[2])
+    const startYear = /\d{4}/.exec(match[1])
+    const start = readDate(match[1], startYear ? undefined : endYear ? Number(endYear[0]) : undefined)
+    const end = start ? readDate(match[2], endYear ? undefined : start.start.getFullYear()) : null
+    if (start && end) {
+      if (end.end < start.start) end.end.setFullYear(end.end.getFullYear() + 1)
+      return { start: start.start, end: end.end, text: match[0], index: match.index }
+    }
+  }
+
+  // "since January", "seit dem 1. März 2024", "after 2023"
+  match = new RegExp(`(?<![\\p{L}])(?:since|seit|after|nach dem)\\s+(?:the\\s+|dem\\s+)?${datePattern}`, "u").exec(
+    lowerCaseQuery,
+  )
+  if (match) {
+    const range = readDate(match[1])
+    if (range) {
+      const start = /^(?:after|nach)/.test(match[0]) ? new Date(range.end.getTime() + 1) : range.start
+      return { start, end: endOfDay(today), text: match[0], index: match.index }
+    }
+  }
+
+  // "the last 30 days", "in den letzten 3 Monaten", "past 2 weeks" run up to today
+  match = new RegExp(
+    `${leadPattern}(?:last|past|previous|letzten?|vergangenen)\\s+(\\d+)\\s+(${unitPattern})(?![\\p{L}])`,
+    "u",
+  ).exec(lowerCaseQuery)
+  if (match) {
+    const unit = findUnit(match[2])
+    const start = startOfDay(shiftDate(today, unit, -Number(match[1])))
+    start.setDate(start.getDate() + 1)
+    return { start, end: endOfDay(today), text: match[0], index: match.index }
+  }
+
+  // "last quarter", "previous month", "letzte Woche", "vorigen Monat", "this year", "dieses Quartal"
+  match = new RegExp(
+    `${leadPattern}(last|previous|past|this|current|letzte[nrsm]?|vorige[nrsm]?|vergangene[nrsm]?|diese[nrsm]?|aktuelle[nrsm]?|laufende[nrsm]?)\\s+(${unitPattern})(?![\\p{L}])`,
+    "u",
+  ).exec(lowerCaseQuery)
+  if (match) {
+    const unit = findUnit(match[2])
+    const isCurrent = /^(?:this|current|diese|aktuelle|laufende)/.test(match[1])
+    const period = getCalendarPeriod(
+      isCurrent ? today : shiftDate(getCalendarPeriod(today, unit).start, unit, -1),
+      unit,
+    )
+    return { ...period, text: match[0], index: match.index }
+  }
+
+  // "today", "yesterday", "heute", "gestern"
+  match = /(?<![\p{L}])(today|yesterday|heute|gestern)(?![\p{L}])/u.exec(lowerCaseQuery)
+  if (match) {
+    const day = /yesterday|gestern/.test(match[1]) ? shiftDate(today, "day", -1) : today
+    return { ...getCalendarPeriod(day, "day"), text: match[0], index: match.index }
+  }
+
+  // "Q1 2024", "first quarter of 2024", "im 1. Quartal"
+  match = new RegExp(
+    `${leadPattern}(?:q([1-4])|([1-4])(?:st|nd|rd|th|\\.)\\s+(?:quarter|quartal))(?:\\s+(?:of\\s+)?(\\d{4}))?(?![\\p{L}\\p{N}])`,
+    "u",
+  ).exec(lowerCaseQuery)
+  if (match) {
+    const quarter = Number(match[1] || match[2])
+    let period = getCalendarPeriod(
+      new Date(match[3] ? Number(match[3]) : today.getFullYear(), (quarter - 1) * 3, 1),
+      "quarter",
+    )
+    if (!match[3] && period.start > today) period = getCalendarPeriod(shiftDate(period.start, "year", -1), "quarter")
+    return { ...period, text: match[0], index: match.index }
+  }
+
+  // "in March 2024", "im März", "during 2023", "im Jahr 2024"
+  match = new RegExp(
+    `(?<![\\p{L}])(?:in|im|during|for|für)\\s+(?:the\\s+year\\s+|jahr\\s+)?(${monthPattern}(?:\\s+\\d{4})?|\\d{4})(?![\\p{L}\\p{N}])`,
+    "u",
+  ).exec(lowerCaseQuery)
+  if (match) {
+    const range = readDate(match[1])
+    if (range) return { ...range, text: match[0], index: match.index }
+  }
+
+  // "March 2024" without a preposition
+  match = new RegExp(`(?<![\\p{L}])${monthPattern}\\s+\\d{4}(?![\\p{N}])`, "u").exec(lowerCaseQuery)
+  if (match) {
+    const range = readDate(match[0])
+    if (range) return { ...range, text: match[0], index: match.index }
+  }
+
+  return null
+}
+
+// A range of bare years can also compare numbers ("Amount between 1950 and 2050"). It is no time range
+// when a numeric column is named before it and the sheet has numeric values in that range.
+const isNumericYearRange = (
+  expression: { text: string; index: number },
+  query: string,
+  rows: any[],
+  columns: string[],
+  decimalSeparators: DecimalSeparators,
+  aliases: ColumnAliases = {},
+): boolean => {
+  const years = /^(?:between|from|zwischen|vom|von)\s+(\d{4})\s+(?:and|to|until|und|bis)\s+(\d{4})$/.exec(
+    expression.text.toLowerCase(),
+  )
+  if (!years) return false
+
+  const numericColumns = columns.filter((column) => isNumericColumn(rows, column, decimalSeparators))
+  const namesNumericColumn = resolveColumnMentions(query.slice(0, expression.index), columns, aliases).some((match) =>
+    numericColumns.includes(match.column),
+  )
+  const [low, high] = [Number(years[1]), Number(years[2])].sort((a, b) => a - b)
+  return (
+    namesNumericColumn &&
+    numericColumns.some((column) =>
+      rows.some((row) => {
+        const value = readCellNumber(row, column, decimalSeparators)
+        return value >= low && value <= high
+      }),
+    )
+  )
+}
+
+// Check whether a cell's date lies in a range
+const isWithinDateRange = (value: any, range: { start: Date; end: Date }): boolean => {
+  const date = parseDateValue(value)
+  return date !== null && date >= range.start && date <= range.end
+}
+
+// Describe a date range, e.g. "1 January 2025 – 31 March 2025"
+const formatDateRange = (range: { start: Date; end: Date }, language: Language): string => {
+  const format = (date: Date) =>
+    date.toLocaleDateString(language === "de-DE" ? "de-DE" : "en-GB", {
+      day: "numeric",
+      month: "long",
+      year: "numeric",
+    })
+  const start = format(range.start)
+  const end = format(range.end)
+  return start === end ? start : `${start} – ${end}`
+}
+
+// Build a sortable period key such as "2024-03", "2024-Q1" or "2024-W07"
+const getPeriodKey = (date: Date, granularity: TimeGranularity): string => {
+  const pad = (num: number) => String(num).padStart(2, "0")
+
+  switch (granularity) {
+    case "day":
+      return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+    case "week": {
+      // ISO week: the week containing the Thursday belongs to that Thursday's year
+      const target = new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()))
+      const dayNumber = target.getUTCDay() || 7
+      target.setUTCDate(target.getUTCDate() + 4 - dayNumber)
+      const yearStart = new Date(Date.UTC(target.getUTCFullYear(), 0, 1))
+      const week = Math.ceil(((target.getTime() - yearStart.getTime()) / 86400000 + 1) / 7)
+      return `${target.getUTCFullYear()}-W${pad(week)}`
+    }
+    case "month":
+      return `${date.getFullYear()}-${pad(date.getMonth() + 1)}`
+    case "quarter":
+      return `${date.getFullYear()}-Q${Math.floor(date.getMonth() / 3) + 1}`
+    case "year":
+      return String(date.getFullYear())
+  }
+}
+
+// List every period from the first to the last date, including those without any rows
+const listPeriods = (dates: Date[], granularity: TimeGranularity): string[] => {
+  const timestamps = dates.map((date) => date.getTime())
+  const first = new Date(Math.min(...timestamps))
+  const lastKey = getPeriodKey(new Date(Math.max(...timestamps)), granularity)
+  const month =
+    granularity === "year"
+      ? 0
+      : granularity === "quarter"
+        ? first.getMonth() - (first.getMonth() % 3)
+        : first.getMonth()
+  const cursor = new Date(
+    first.getFullYear(),
+    month,
+    granularity === "day" || granularity === "week" ? first.getDate() : 1,
+  )
+
+  const periods: string[] = []
+  for (let key = getPeriodKey(cursor, granularity); key <= lastKey; key = getPeriodKey(cursor, granularity)) {
+    periods.push(key)
+    if (granularity === "day") cursor.setDate(cursor.getDate() + 1)
+    else if (granularity === "week") cursor.setDate(cursor.getDate() + 7)
+    else if (granularity === "month") cursor.setMonth(cursor.getMonth() + 1)
+    else if (granularity === "quarter") cursor.setMonth(cursor.getMonth() + 3)
+    else cursor.setFullYear(cursor.getFullYear() + 1)
+  }
+  return periods
+}
+
+// Read the bucket size of a trend from the query: "per quarter", "monatlich"
+const extractGranularity = (query: string): TimeGranularity | null => {
+  const lowerCaseQuery = query.toLowerCase()
+  const granularityKeywords: Record<TimeGranularity, string[]> = {
+    day: ["daily", "per day", "by day", "each day", "täglich", "pro tag", "tag"],
+    week: ["weekly", "per week", "by week", "week", "wöchentlich", "pro woche", "woche"],
+    month: ["monthly", "per month", "by month", "month", "monatlich", "pro monat", "monat"],
+    quarter: ["quarterly", "per quarter", "by quarter", "quarter", "quartalsweise", "pro quartal", "quartal"],
+    year: ["yearly", "annual", "per year", "by year", "year", "jährlich", "pro jahr", "jahr"],
+  }
+
+  for (const [granularity, keywords] of Object.entries(granularityKeywords)) {
+    if (keywords.some((keyword) => containsPhrase(lowerCaseQuery, keyword))) {
+      return granularity as TimeGranularity
+    }
+  }
+  return null
+}
+
+// Pick the bucket size from the covered time span
+const detectGranularity = (dates: Date[]): TimeGranularity => {
+  const timestamps = dates.map((date) => date.getTime())
+  const spanInDays = (Math.max(...timestamps) - Math.min(...timestamps)) / 86400000
+
+  if (spanInDays <= 31) return "day"
+  if (spanInDays <= 180) return "week"
+  if (spanInDays <= 3 * 366) return "month"
+  if (spanInDays <= 8 * 366) return "quarter"
+  return "year"
+}
+
+const granularityLabels: Record<TimeGranularity, { en: string; de: string }> = {
+  day: { en: "day", de: "Tag" },
+  week: { en: "week", de: "Woche" },
+  month: { en: "month", de: "Monat" },
+  quarter: { en: "quarter", de: "Quartal" },
+  year: { en: "year", de: "Jahr" },
+}
+
+// Analyze how a numeric column develops over time
+const analyzeTrend = (
+  requestedGranularity: TimeGranularity | null,
+  aggregation: AggregationOperation | null,
+  data: any[],
+  columns: string[],
+  mentionedColumns: string[],
+  decimalSeparators: DecimalSeparators,
+  language: Language,
+): QueryResult => {
+  const dateColumn = findDateColumn(data, columns, mentionedColumns)
+
+  if (!dateColumn) {
+    return {
+      answer:
+        language === "de-DE"
+          ? "Ich konnte keine Datumsspalte in dieser Tabelle finden, um einen Trend zu berechnen."
+          : "I couldn't find a date column in this sheet to calculate a trend.",
+      explanation: "",
+      data: null,
+      followUpQuestions: [],
+      confidence: 0.5,
+      usedColumns: [],
+      operation: "trend",
+    }
+  }
+
+  // Without a numeric column we count the rows per period
+  const valueColumn =
+    mentionedColumns.find((column) => column !== dateColumn && isNumericColumn(data, column, decimalSeparators)) || null
+  const useAverage = aggregation === "average"
+
+  const datedRows = data
+    .map((row) => ({ date: parseDateValue(row[dateColumn]), row }))
+    .filter((entry): entry is { date: Date; row: any } => entry.date !== null)
+
+  const granularity = requestedGranularity || detectGranularity(datedRows.map((entry) => entry.date))
+  const buckets = new Map<string, number[]>()
+  const valueDates: Date[] = []
+
+  for (const { date, row } of datedRows) {
+    const value = valueColumn ? readCellNumber(row, valueColumn, decimalSeparators) : 1
+    if (isNaN(value)) continue
+
+    const key = getPeriodKey(date, granularity)
+    buckets.set(key, [...(buckets.get(key) || []), value])
+    valueDates.push(date)
+  }
+
+  // Periods without rows sum to 0 and have no average; either way they stay out of the trend line
+  const periods = valueDates.length > 0 ? listPeriods(valueDates, granularity) : []
+  const periodValues = periods.map((period) => {
+    const values = buckets.get(period)
+    if (!values) return useAverage ? null : 0
+    const total = values.reduce((sum, val) => sum + val, 0)
+    return useAverage ? total / values.length : total
+  })
+  const emptyPeriods = periods.filter((period) => !buckets.has(period)).length
+  const usedColumns = valueColumn ? [dateColumn, valueColumn] : [dateColumn]
+  const measureName = valueColumn || (language === "de-DE" ? "Anzahl der Einträge" : "number of entries")
+  const unit = language === "de-DE" ? granularityLabels[granularity].de : granularityLabels[granularity].en
+
+  if (periods.length < 2) {
+    return {
+      answer:
+        language === "de-DE"
+          ? `Die Daten in ${dateColumn} umfassen nur einen Zeitraum (${unit}), daher kann ich keinen Trend berechnen.`
+          : `The data in ${dateColumn} covers only a single ${unit}, so I can't calculate a trend.`,
+      explanation: "",
+      data: null,
+      followUpQuestions: [],
+      confidence: 0.6,
+      usedColumns,
+      operation: "trend",
+    }
+  }
+
+  // Linear regression of the periods with rows over the position of their period, so gaps keep their length
+  const n = periods.length
+  const points = periods.flatMap((period, offset) =>
+    buckets.has(period) ? [{ offset, value: periodValues[offset] as number }] : [],
+  )
+  const meanX = points.reduce((sum, point) => sum + point.offset, 0) / points.length
+  const meanY = points.reduce((sum, point) => sum + point.value, 0) / points.length
+  let numerator = 0
+  let denominator = 0
+  for (const { offset, value } of points) {
+    numerator += (offset - meanX) * (value - meanY)
+    denominator += (offset - meanX) * (offset - meanX)
+  }
+  const slope = numerator / denominator
+  const firstValue = periodValues[0] as number
+  const lastValue = periodValues[n - 1] as number
+
+  // Treat a total change of less than 5% of the mean as stable
+  const relativeChange = meanY !== 0 ? Math.abs((slope * (n - 1)) / meanY) : Math.abs(slope)
+  const direction = relativeChange < 0.05 ? "stable" : slope > 0 ? "rising" : "falling"
+  const directionText =
+    language === "de-DE"
+      ? { stable: "bleibt stabil", rising: "steigt", falling: "sinkt" }[direction]
+      : { stable: "is stable", rising: "is rising", falling: "is falling" }[direction]
+
+  // Changes between periods with rows, so the jump out of an empty period isn't the biggest change
+  const previousIndexes = periods.map((_, index) => {
+    if (!buckets.has(periods[index])) return -1
+    for (let i = index - 1; i >= 0; i--) {
+      if (buckets.has(periods[i])) return i
+    }
+    return -1
+  })
+  const changes = periodValues.map((value, index) => {
+    const previous = previousIndexes[index] !== -1 ? periodValues[previousIndexes[index]] : null
+    return value !== null && previous !== null ? value - previous : null
+  })
+  let biggestChangeIndex = -1
+  for (let i = 1; i < n; i++) {
+    const change = changes[i]
+    if (
+      change !== null &&
+      (biggestChangeIndex === -1 || Math.abs(change) > Math.abs(changes[biggestChangeIndex] as number))
+    ) {
+      biggestChangeIndex = i
+    }
+  }
+  const signed = (value: number) => `${value >= 0 ? "+" : ""}${formatDecimal(value, language)}`
+  let changeSentence = ""
+  if (biggestChangeIndex !== -1) {
+    const biggestChange = changes[biggestChangeIndex] as number
+    const previousIndex = previousIndexes[biggestChangeIndex]
+    const previousValue = periodValues[previousIndex] as number
+    const biggestChangeRatio = previousValue !== 0 ? biggestChange / Math.abs(previousValue) : null
+    const changeText = `${signed(biggestChange)}${biggestChangeRatio !== null ? `, ${biggestChangeRatio >= 0 ? "+" : ""}${formatPercentage(biggestChangeRatio, language)}` : ""}`
+    changeSentence =
+      language === "de-DE"
+        ? ` Die größte Veränderung gab es von ${periods[previousIndex]} auf ${periods[biggestChangeIndex]} (${changeText}).`
+        : ` The biggest change was from ${periods[previousIndex]} to ${periods[biggestChangeIndex]} (${changeText}).`
+  }
+  const emptyPeriodText =
+    emptyPeriods === 0
+      ? ""
+      : language === "de-DE"
+        ? `, davon ${emptyPeriods} ohne Zeilen, die ich bei der Trendlinie ausgelassen habe`
+        : `, ${emptyPeriods} of them without rows, which I left out of the trend line`
+
+  // The trend line can fall while the last period is above the first, e.g. when empty periods count as 0
+  const contradictsEnds =
+    (direction === "rising" && lastValue < firstValue) || (direction === "falling" && lastValue > firstValue)
+
+  return {
+    answer: contradictsEnds
+      ? language === "de-DE"
+        ? `${measureName} ${directionText} laut Trendlinie im Zeitverlauf, im Schnitt ${signed(slope)} pro ${unit}, obwohl der Wert von ${formatDecimal(firstValue, language)} (${periods[0]}) auf ${formatDecimal(lastValue, language)} (${periods[n - 1]}) ging.${changeSentence}`
+        : `${measureName} ${directionText} over time according to the trend line, about ${signed(slope)} per ${unit}, although it went from ${formatDecimal(firstValue, language)} (${periods[0]}) to ${formatDecimal(lastValue, language)} (${periods[n - 1]}).${changeSentence}`
+      : language === "de-DE"
+        ? `${measureName} ${directionText} im Zeitverlauf: von ${formatDecimal(firstValue, language)} (${periods[0]}) auf ${formatDecimal(lastValue, language)} (${periods[n - 1]}), im Schnitt ${signed(slope)} pro ${unit}.${changeSentence}`
+        : `${measureName} ${directionText} over time: from ${formatDecimal(firstValue, language)} (${periods[0]}) to ${formatDecimal(lastValue, language)} (${periods[n - 1]}), about ${signed(slope)} per ${unit}.${changeSentence}`,
+    explanation:
+      language === "de-DE"
+        ? `Ich habe die Zeilen anhand der Datumsspalte ${dateColumn} nach ${unit} gruppiert und ${valueColumn ? `${useAverage ? "den Durchschnitt" : "die Summe"} von ${valueColumn}` : "die Einträge"} pro Zeitraum berechnet (${n} Zeiträume${emptyPeriodText}). Die Steigung stammt aus einer linearen Regression über diese Werte.`
+        : `I grouped the rows by ${unit} using the date column ${dateColumn} and calculated ${valueColumn ? `the ${useAverage ? "average" : "sum"} of ${valueColumn}` : "the number of entries"} per period (${n} periods${emptyPeriodText}). The slope comes from a linear regression over these values.`,
+    data: periods.map((period, index) => {
+      const value = periodValues[index]
+      const change = changes[index]
+      return {
+        Period: period,
+        [valueColumn || "Count"]: value !== null ? Number(value.toFixed(2)) : null,
+        Change: change !== null ? Number(change.toFixed(2)) : null,
+      }
+    }),
+    followUpQuestions: [
+      language === "de-DE" ? `Zeige den Trend pro Quartal.` : `Show me the trend per quarter.`,
+      valueColumn
+        ? language === "de-DE"
+          ? `Was ist der Maximalwert von ${valueColumn}?`
+          : `What is the maximum value of ${valueColumn}?`
+        : language === "de-DE"
+          ? "Gib mir einen Überblick über die Daten."
+          : "Give me an overview of the data.",
+      language === "de-DE" ? `Wie viele Einträge gibt es insgesamt?` : `How many entries are there in total?`,
+    ],
+    confidence: valueColumn || mentionedColumns.length === 0 ? 0.85 : 0.7,
+    usedColumns,
+    operation: "trend",
+  }
+}
+
+// Get data overview
+const getDataOverview = (
+  data: any[],
+  columns: string[],
+  decimalSeparators: DecimalSeparators,
+  language: Language,
+): QueryResult => {
+  const numRows = data.length
+  const numCols = columns.length
+
+  // Count numeric columns
+  let numericColumns = 0
+  for (const col of columns) {
+    const allNumbers = data.slice(0, 10).every((row) => !isNaN(readCellNumber(row, col, decimalSeparators)))
+    if (allNumbers) numericColumns++
+  }
+
+  return {
+    answer:
+      language === "de-DE"
+        ? `Tabellenübersicht: ${numRows} Zeilen, ${numCols} Spalten. Davon sind etwa ${numericColumns} Spalten numerisch. Die Spalten sind: ${columns.join(", ")}.`
+        : `Sheet overview: ${numRows} rows, ${numCols} columns. Approximately ${numericColumns} columns contain numeric data. The columns are: ${columns.join(", ")}.`,
+    explanation:
+      language === "de-DE"
+        ? "Ich habe die grundlegenden Eigenschaften der Tabelle analysiert, einschließlich der Anzahl der Zeilen, Spalten und der Art der Daten."
+        : "I analyzed the basic properties of the sheet, including the number of rows, columns, and the type of data.",
+    data: null,
+    followUpQuestions: [
+      language === "de-DE" ? "Welche Spalten enthalten numerische Daten?" : "Which columns contain numeric data?",
+      language === "de-DE"
+        ? "Was ist die Spalte mit den meisten einzigartigen Werten?"
+        : "What is the column with the most unique values?",
+      language === "de-DE"
+        ? "Gibt es Korrelationen zwischen den numerischen Spalten?"
+        : "Are there correlations between the numeric columns?",
+    ],
+    confidence: 0.9,
+    usedColumns: columns,
+    operation: "overview",
+  }
+}
+
+// Generate follow-up questions
+const generateFollowUpQuestions = (columns: string[], language: Language): string[] => {
+  const questions: string[] = []
+
+  // Select a few random columns for follow-up questions
+  const randomColumns = columns.sort(() => 0.5 - Math.random()).slice(0, Math.min(3, columns.length))
+
+  for (const column of randomColumns) {
+    if (language === "de-DE") {
+      questions.push(`Was ist der Durchschnitt von ${column}?`)
+      questions.push(`Wie viele einzigartige Werte gibt es in ${column}?`)
+    } else {
+      questions.push(`What is the average of ${column}?`)
+      questions.push(`How many unique values are there in ${column}?`)
+    }
+  }
+
+  // Add general questions
+  if (language === "de-DE") {
+    questions.push("Gib mir einen Überblick über die Daten.")
+    questions.push("Wie viele Einträge gibt es insgesamt?")
+  } else {
+    questions.push("Give me an overview of the data.")
+    questions.push("How many entries are there in total?")
+  }
+
+  // Return a subset of questions
+  return questions.slice(0, 5)
+}